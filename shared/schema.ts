@@ -1,4 +1,4 @@
-import { pgTable, varchar, text, timestamp, numeric, integer, unique, index } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, timestamp, numeric, integer, unique, index, primaryKey } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 
 export const ledgerAccounts = pgTable("ledger_accounts", {
@@ -7,10 +7,17 @@ export const ledgerAccounts = pgTable("ledger_accounts", {
   accountType: varchar("account_type", { length: 32 }).notNull(),
   currency: varchar("currency", { length: 8 }).notNull(),
   metadata: text("metadata"),
+  status: varchar("status", { length: 16 }).$type<"active" | "frozen" | "closed">().default("active").notNull(),
+  statusReason: text("status_reason"),
+  balancePolicy: text("balance_policy"),
+  parentAccountId: varchar("parent_account_id", { length: 64 }),
+  classification: varchar("classification", { length: 16 })
+    .$type<"asset" | "liability" | "equity" | "income" | "expense">(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   unique("unique_tenant_account").on(table.tenantId, table.id),
   index("idx_accounts_tenant").on(table.tenantId),
+  index("idx_accounts_parent").on(table.tenantId, table.parentAccountId),
 ]);
 
 export const ledgerEvents = pgTable("ledger_events", {
@@ -22,15 +29,29 @@ export const ledgerEvents = pgTable("ledger_events", {
   currency: varchar("currency", { length: 8 }).notNull(),
   idempotencyKey: varchar("idempotency_key", { length: 128 }).notNull(),
   reversesEventId: varchar("reverses_event_id", { length: 64 }),
+  transactionId: varchar("transaction_id", { length: 64 }),
   description: text("description"),
   metadata: text("metadata"),
   sequenceNumber: integer("sequence_number").notNull(),
+  hash: varchar("hash", { length: 64 }),
+  previousHash: varchar("previous_hash", { length: 64 }),
+  context: text("context"),
+  direction: varchar("direction", { length: 8 }).$type<"credit" | "debit">(),
+  sourceType: varchar("source_type", { length: 16 }).$type<"pricing" | "incentive" | "payment" | "adjustment" | "reversal">(),
+  sourceRef: varchar("source_ref", { length: 255 }),
+  effectiveAt: timestamp("effective_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   unique("unique_idempotency").on(table.tenantId, table.idempotencyKey),
+  unique("unique_account_sequence").on(table.tenantId, table.accountId, table.sequenceNumber),
   index("idx_events_account").on(table.accountId),
   index("idx_events_tenant").on(table.tenantId),
   index("idx_events_sequence").on(table.accountId, table.sequenceNumber),
+  index("idx_events_transaction").on(table.tenantId, table.transactionId),
+  index("idx_events_reverses").on(table.tenantId, table.reversesEventId),
+  index("idx_events_account_created").on(table.tenantId, table.accountId, table.createdAt),
+  index("idx_events_source").on(table.tenantId, table.sourceType, table.createdAt),
+  index("idx_events_source_ref").on(table.tenantId, table.sourceRef),
 ]);
 
 export const auditEvents = pgTable("audit_events", {
@@ -40,11 +61,137 @@ export const auditEvents = pgTable("audit_events", {
   entityId: varchar("entity_id", { length: 64 }).notNull(),
   action: varchar("action", { length: 32 }).notNull(),
   actorId: varchar("actor_id", { length: 64 }),
+  requestId: varchar("request_id", { length: 64 }),
+  correlationId: varchar("correlation_id", { length: 64 }),
+  sourceModule: varchar("source_module", { length: 64 }),
+  clientIp: varchar("client_ip", { length: 45 }),
   payload: text("payload"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_audit_tenant").on(table.tenantId),
   index("idx_audit_entity").on(table.entityType, table.entityId),
+  index("idx_audit_tenant_created").on(table.tenantId, table.createdAt),
+]);
+
+export const balanceSnapshots = pgTable("balance_snapshots", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  accountId: varchar("account_id", { length: 64 }).notNull(),
+  sequenceNumber: integer("sequence_number").notNull(),
+  balance: numeric("balance", { precision: 38, scale: 8 }).notNull(),
+  eventCount: integer("event_count").notNull(),
+  lastEventAt: timestamp("last_event_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_snapshot_sequence").on(table.tenantId, table.accountId, table.sequenceNumber),
+  index("idx_snapshots_account").on(table.tenantId, table.accountId),
+]);
+
+export const ledgerHolds = pgTable("ledger_holds", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  accountId: varchar("account_id", { length: 64 }).notNull(),
+  amount: numeric("amount", { precision: 20, scale: 8 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  status: varchar("status", { length: 16 }).$type<"active" | "captured" | "released">().notNull(),
+  capturedAmount: numeric("captured_amount", { precision: 20, scale: 8 }),
+  captureEventId: varchar("capture_event_id", { length: 64 }),
+  idempotencyKey: varchar("idempotency_key", { length: 128 }).notNull(),
+  description: text("description"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_hold_idempotency").on(table.tenantId, table.idempotencyKey),
+  index("idx_holds_account_status").on(table.tenantId, table.accountId, table.status),
+]);
+
+export const ledgerOutbox = pgTable("ledger_outbox", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  eventId: varchar("event_id", { length: 64 }).notNull(),
+  accountId: varchar("account_id", { length: 64 }).notNull(),
+  sequenceNumber: integer("sequence_number").notNull(),
+  eventType: varchar("event_type", { length: 32 }).notNull(),
+  status: varchar("status", { length: 16 }).$type<"pending" | "delivered" | "dead_letter">().notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_outbox_event").on(table.tenantId, table.eventId),
+  index("idx_outbox_pending").on(table.tenantId, table.status, table.accountId, table.sequenceNumber),
+]);
+
+export const ledgerProjections = pgTable("ledger_projections", {
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  name: varchar("name", { length: 64 }).notNull(),
+  version: integer("version").notNull(),
+  state: text("state").notNull(),
+  checkpoint: text("checkpoint").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ name: "pk_projection", columns: [table.tenantId, table.name] }),
+]);
+
+export const ledgerFxResidues = pgTable("ledger_fx_residues", {
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  residue: numeric("residue", { precision: 20, scale: 8 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ name: "pk_fx_residue", columns: [table.tenantId, table.currency] }),
+]);
+
+export const ledgerPeriods = pgTable("ledger_periods", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  name: varchar("name", { length: 64 }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: varchar("status", { length: 16 }).$type<"open" | "closed">().notNull(),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_period_name").on(table.tenantId, table.name),
+  index("idx_periods_tenant_range").on(table.tenantId, table.startsAt, table.endsAt),
+]);
+
+export const ledgerPeriodBalances = pgTable("ledger_period_balances", {
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  periodId: varchar("period_id", { length: 64 }).notNull(),
+  accountId: varchar("account_id", { length: 64 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  openingBalance: numeric("opening_balance", { precision: 38, scale: 8 }).notNull(),
+  closingBalance: numeric("closing_balance", { precision: 38, scale: 8 }).notNull(),
+  movement: numeric("movement", { precision: 38, scale: 8 }).notNull(),
+  eventCount: integer("event_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ name: "pk_period_balance", columns: [table.tenantId, table.periodId, table.accountId] }),
+]);
+
+export const ledgerReconciliationDecisions = pgTable("ledger_reconciliation_decisions", {
+  tenantId: varchar("tenant_id", { length: 64 }).notNull(),
+  accountId: varchar("account_id", { length: 64 }).notNull(),
+  externalId: varchar("external_id", { length: 128 }).notNull(),
+  eventId: varchar("event_id", { length: 64 }),
+  status: varchar("status", { length: 24 }).$type<"matched" | "amount_mismatch" | "unmatched_external">().notNull(),
+  method: varchar("method", { length: 16 }).$type<"reference" | "amount_date" | "manual">(),
+  externalAmount: numeric("external_amount", { precision: 20, scale: 8 }).notNull(),
+  externalDate: timestamp("external_date").notNull(),
+  reference: varchar("reference", { length: 255 }),
+  runId: varchar("run_id", { length: 64 }).notNull(),
+  decidedBy: varchar("decided_by", { length: 64 }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ name: "pk_reconciliation_decision", columns: [table.tenantId, table.accountId, table.externalId] }),
+  index("idx_reconciliation_event").on(table.tenantId, table.eventId),
 ]);
 
 export const ledgerAccountsRelations = relations(ledgerAccounts, ({ many }) => ({
@@ -68,3 +215,19 @@ export type LedgerEvent = typeof ledgerEvents.$inferSelect;
 export type InsertLedgerEvent = typeof ledgerEvents.$inferInsert;
 export type AuditEvent = typeof auditEvents.$inferSelect;
 export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type BalanceSnapshot = typeof balanceSnapshots.$inferSelect;
+export type InsertBalanceSnapshot = typeof balanceSnapshots.$inferInsert;
+export type LedgerHold = typeof ledgerHolds.$inferSelect;
+export type InsertLedgerHold = typeof ledgerHolds.$inferInsert;
+export type OutboxEntry = typeof ledgerOutbox.$inferSelect;
+export type InsertOutboxEntry = typeof ledgerOutbox.$inferInsert;
+export type ProjectionRecord = typeof ledgerProjections.$inferSelect;
+export type InsertProjectionRecord = typeof ledgerProjections.$inferInsert;
+export type FxResidue = typeof ledgerFxResidues.$inferSelect;
+export type InsertFxResidue = typeof ledgerFxResidues.$inferInsert;
+export type AccountingPeriod = typeof ledgerPeriods.$inferSelect;
+export type InsertAccountingPeriod = typeof ledgerPeriods.$inferInsert;
+export type PeriodBalance = typeof ledgerPeriodBalances.$inferSelect;
+export type InsertPeriodBalance = typeof ledgerPeriodBalances.$inferInsert;
+export type ReconciliationDecision = typeof ledgerReconciliationDecisions.$inferSelect;
+export type InsertReconciliationDecision = typeof ledgerReconciliationDecisions.$inferInsert;
@@ -0,0 +1,23 @@
+import { v4 as uuidv4 } from "uuid";
+import type { AuditEventParams, LedgerStorage } from "./index";
+
+/** Records an audit event, taking the actor from the context unless one is given. */
+export async function emitAuditEvent(
+  tx: LedgerStorage,
+  tenantId: string,
+  params: AuditEventParams
+): Promise<void> {
+  await tx.createAuditEvent({
+    id: uuidv4(),
+    tenantId,
+    entityType: params.entityType,
+    entityId: params.entityId,
+    action: params.action,
+    actorId: params.actorId || params.context?.actorId || null,
+    requestId: params.context?.requestId || null,
+    correlationId: params.context?.correlationId || null,
+    sourceModule: params.context?.sourceModule || null,
+    clientIp: params.context?.clientIp || null,
+    payload: params.payload ? JSON.stringify(params.payload) : null,
+  });
+}
@@ -0,0 +1,10 @@
+export class LedgerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
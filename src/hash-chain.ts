@@ -0,0 +1,57 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { Money } from "./money";
+import type { LedgerEvent } from "./index";
+
+export const HASH_ALGORITHM = "SHA-256";
+export const SIGNATURE_ALGORITHM = "HMAC-SHA256";
+
+export type HashableEvent = Omit<LedgerEvent, "hash">;
+
+/**
+ * Content hash of an event, chained to its predecessor through `previousHash`.
+ * `createdAt` is part of the original layout because statements, as-of
+ * balances and period closes all read it; amounts are normalized so "100.00"
+ * and the database's "100.00000000" hash identically. Fields added after that
+ * layout are appended only when set, so events hashed before them keep their
+ * hashes; the event taxonomy goes in as an object so it can never be mistaken
+ * for a context string. Events stored before the chain existed have no hash
+ * until `Ledger.backfillHashChain` computes one with this layout.
+ */
+export function computeEventHash(event: HashableEvent): string {
+  const canonical = JSON.stringify([
+    event.id,
+    event.tenantId,
+    event.accountId,
+    event.sequenceNumber,
+    event.createdAt.toISOString(),
+    event.eventType,
+    Money.parse(event.amount).toString(),
+    event.currency,
+    event.idempotencyKey,
+    event.reversesEventId,
+    event.transactionId,
+    event.description,
+    event.metadata,
+    event.previousHash,
+    ...(event.context !== null ? [event.context] : []),
+    ...(event.direction !== null
+      ? [{ direction: event.direction, sourceType: event.sourceType, sourceRef: event.sourceRef }]
+      : []),
+    ...(event.effectiveAt !== null ? [{ effectiveAt: event.effectiveAt.toISOString() }] : []),
+  ]);
+  return sha256(canonical);
+}
+
+export function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export function signDigest(digest: string, key: string): string {
+  return createHmac("sha256", key).update(digest).digest("hex");
+}
+
+export function verifyDigestSignature(digest: string, signature: string, key: string): boolean {
+  const expected = Buffer.from(signDigest(digest, key), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { Ledger, LedgerError } from "./index";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Ledger, LedgerError, exportStatementCamt053, type LedgerEvent } from "./index";
 import { InMemoryStorage } from "./storage";
+import { computeEventHash } from "./hash-chain";
 
 describe("Ledger", () => {
   let ledger: Ledger;
@@ -73,6 +74,318 @@ describe("Ledger", () => {
     });
   });
 
+  describe("account lifecycle", () => {
+    let accountId: string;
+    const compliance = { reason: "KYC review", actorId: "compliance-officer" };
+
+    const post = (amount: string, key: string) =>
+      ledger.recordEvent({ accountId, eventType: "POSTING", amount, currency: "USD", idempotencyKey: key });
+
+    beforeEach(async () => {
+      accountId = (await ledger.openAccount({ accountType: "WALLET", currency: "USD" })).id;
+      await post("100.00", "seed");
+    });
+
+    it("should open accounts as active", async () => {
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.status).toBe("active");
+    });
+
+    it("should block debits but accept credits on a frozen account", async () => {
+      const frozen = await ledger.freezeAccount(accountId, compliance);
+      expect(frozen.status).toBe("frozen");
+      expect(frozen.statusReason).toBe("KYC review");
+
+      await expect(post("-10.00", "debit-001")).rejects.toMatchObject({ code: "ACCOUNT_FROZEN" });
+      await expect(post("10.00", "credit-001")).resolves.toBeDefined();
+
+      const statement = await ledger.getAccountStatement(accountId);
+      expect(statement.status).toBe("frozen");
+    });
+
+    it("should block all postings when configured to", async () => {
+      ledger = new Ledger({ tenantId, frozenAccountPolicy: "block_all" }, storage);
+      await ledger.freezeAccount(accountId, compliance);
+
+      await expect(post("10.00", "credit-001")).rejects.toMatchObject({ code: "ACCOUNT_FROZEN" });
+    });
+
+    it("should accept debits again after unfreezing", async () => {
+      await ledger.freezeAccount(accountId, compliance);
+      await ledger.unfreezeAccount(accountId, { reason: "Cleared", actorId: "compliance-officer" });
+
+      await expect(post("-10.00", "debit-001")).resolves.toBeDefined();
+    });
+
+    it("should only close accounts with a zero balance", async () => {
+      await expect(ledger.closeAccount(accountId, compliance)).rejects.toMatchObject({
+        code: "NONZERO_BALANCE",
+        details: { balance: "100.00000000" },
+      });
+
+      await post("-100.00", "drain");
+      const closed = await ledger.closeAccount(accountId, compliance);
+      expect(closed.status).toBe("closed");
+
+      await expect(post("1.00", "late-credit")).rejects.toMatchObject({ code: "ACCOUNT_CLOSED" });
+    });
+
+    it("should reopen a closed account", async () => {
+      await post("-100.00", "drain");
+      await ledger.closeAccount(accountId, compliance);
+
+      const reopened = await ledger.reopenAccount(accountId, compliance);
+      expect(reopened.status).toBe("active");
+    });
+
+    it("should reject invalid transitions", async () => {
+      await expect(ledger.unfreezeAccount(accountId, compliance)).rejects.toMatchObject({
+        code: "INVALID_STATUS_TRANSITION",
+      });
+    });
+
+    it("should lock the account before reading its status", async () => {
+      const lock = vi.spyOn(storage, "lockAccount");
+      const read = vi.spyOn(storage, "getAccount");
+
+      await ledger.freezeAccount(accountId, compliance);
+
+      expect(lock).toHaveBeenCalledWith(tenantId, accountId);
+      expect(lock.mock.invocationCallOrder[0]).toBeLessThan(read.mock.invocationCallOrder[0]);
+    });
+
+    it("should audit each transition with reason and actor", async () => {
+      await ledger.freezeAccount(accountId, compliance);
+
+      const audit = storage.getAuditEvents().find((e) => e.action === "ACCOUNT_FROZEN");
+      expect(audit?.actorId).toBe("compliance-officer");
+      expect(JSON.parse(audit?.payload ?? "{}")).toEqual({
+        previousStatus: "active",
+        status: "frozen",
+        reason: "KYC review",
+      });
+    });
+  });
+
+  describe("chart of accounts", () => {
+    const chartOfAccounts = {
+      ASSETS: "asset",
+      CASH: "asset",
+      BANK: "asset",
+      WALLET: "liability",
+    } as const;
+
+    beforeEach(() => {
+      ledger = new Ledger({ tenantId, chartOfAccounts }, storage);
+    });
+
+    const credit = (accountId: string, amount: string, key: string) =>
+      ledger.recordEvent({ accountId, eventType: "CREDIT", amount, currency: "NGN", idempotencyKey: key });
+
+    it("should classify accounts from the chart", async () => {
+      const cash = await ledger.openAccount({ accountType: "CASH", currency: "NGN" });
+      expect(cash.classification).toBe("asset");
+
+      await expect(
+        ledger.openAccount({ accountType: "PETTY_CASH", currency: "NGN" })
+      ).rejects.toMatchObject({ code: "UNKNOWN_ACCOUNT_TYPE" });
+      await expect(
+        ledger.openAccount({ accountType: "CASH", currency: "NGN", classification: "expense" })
+      ).rejects.toMatchObject({ code: "CLASSIFICATION_MISMATCH" });
+    });
+
+    it("should reject charts with unknown classifications", () => {
+      expect(
+        () => new Ledger({ tenantId, chartOfAccounts: { CASH: "cash" as never } }, storage)
+      ).toThrow(expect.objectContaining({ code: "INVALID_CONFIG" }));
+    });
+
+    it("should require parents to exist and share currency and classification", async () => {
+      const assets = await ledger.openAccount({ accountId: "assets", accountType: "ASSETS", currency: "NGN" });
+
+      await expect(
+        ledger.openAccount({ accountType: "CASH", currency: "NGN", parentAccountId: "missing" })
+      ).rejects.toMatchObject({ code: "PARENT_NOT_FOUND" });
+      await expect(
+        ledger.openAccount({ accountType: "CASH", currency: "USD", parentAccountId: assets.id })
+      ).rejects.toMatchObject({ code: "CURRENCY_MISMATCH" });
+      await expect(
+        ledger.openAccount({ accountType: "WALLET", currency: "NGN", parentAccountId: assets.id })
+      ).rejects.toMatchObject({ code: "CLASSIFICATION_MISMATCH" });
+    });
+
+    it("should prevent cycles when re-parenting", async () => {
+      await ledger.openAccount({ accountId: "assets", accountType: "ASSETS", currency: "NGN" });
+      await ledger.openAccount({ accountId: "cash", accountType: "CASH", currency: "NGN", parentAccountId: "assets" });
+      await ledger.openAccount({ accountId: "till", accountType: "CASH", currency: "NGN", parentAccountId: "cash" });
+
+      await expect(ledger.setParentAccount("assets", "till")).rejects.toMatchObject({ code: "ACCOUNT_CYCLE" });
+      await expect(ledger.setParentAccount("cash", "cash")).rejects.toMatchObject({ code: "ACCOUNT_CYCLE" });
+
+      const moved = await ledger.setParentAccount("till", "assets");
+      expect(moved.parentAccountId).toBe("assets");
+      const audits = storage.getAuditEvents();
+      expect(audits[audits.length - 1]).toMatchObject({ action: "ACCOUNT_REPARENTED" });
+    });
+
+    it("should roll up balances over a subtree", async () => {
+      await ledger.openAccount({ accountId: "assets", accountType: "ASSETS", currency: "NGN" });
+      await ledger.openAccount({ accountId: "cash", accountType: "CASH", currency: "NGN", parentAccountId: "assets" });
+      await ledger.openAccount({ accountId: "till", accountType: "CASH", currency: "NGN", parentAccountId: "cash" });
+      await ledger.openAccount({ accountId: "bank", accountType: "BANK", currency: "NGN", parentAccountId: "assets" });
+      await credit("cash", "100.00", "cash-1");
+      await credit("till", "25.50", "till-1");
+      await credit("bank", "1000.00", "bank-1");
+
+      const rollup = await ledger.getRollupBalance("assets");
+      expect(rollup).toMatchObject({
+        accountId: "assets",
+        classification: "asset",
+        balance: "0.00000000",
+        rollupBalance: "1125.50000000",
+        accountCount: 4,
+      });
+      expect(rollup.children.map((c) => [c.accountId, c.rollupBalance])).toEqual([
+        ["bank", "1000.00000000"],
+        ["cash", "125.50000000"],
+      ]);
+
+      expect((await ledger.getRollupBalance("cash")).rollupBalance).toBe("125.50000000");
+    });
+  });
+
+  describe("balance policies", () => {
+    const post = (accountId: string, amount: string, key: string) =>
+      ledger.recordEvent({ accountId, eventType: "POSTING", amount, currency: "NGN", idempotencyKey: key });
+
+    beforeEach(() => {
+      ledger = new Ledger(
+        {
+          tenantId,
+          balancePolicies: {
+            WALLET: { normalSide: "credit" },
+            CREDIT_LINE: { normalSide: "credit", overdraftLimit: "500.00" },
+            RECEIVABLE: { normalSide: "debit" },
+          },
+        },
+        storage
+      );
+    });
+
+    it("should reject postings that drive a wallet negative, reporting the shortfall", async () => {
+      const wallet = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      await post(wallet.id, "100.00", "seed");
+
+      await expect(post(wallet.id, "-130.00", "debit-001")).rejects.toMatchObject({
+        code: "BALANCE_POLICY_VIOLATION",
+        details: {
+          balance: "100.00000000",
+          projectedBalance: "-30.00000000",
+          limit: "0.00000000",
+          shortfall: "30.00000000",
+        },
+      });
+      await expect(post(wallet.id, "-100.00", "debit-002")).resolves.toBeDefined();
+    });
+
+    it("should allow overdrafts up to the limit", async () => {
+      const line = await ledger.openAccount({ accountType: "CREDIT_LINE", currency: "NGN" });
+
+      await expect(post(line.id, "-500.00", "draw-001")).resolves.toBeDefined();
+      await expect(post(line.id, "-0.01", "draw-002")).rejects.toMatchObject({
+        details: { shortfall: "0.01000000" },
+      });
+    });
+
+    it("should prefer a policy set on the account", async () => {
+      const wallet = await ledger.openAccount({
+        accountType: "WALLET",
+        currency: "NGN",
+        balancePolicy: { minimumBalance: "50.00" },
+      });
+      await post(wallet.id, "100.00", "seed");
+
+      await expect(post(wallet.id, "-60.00", "debit-001")).rejects.toMatchObject({
+        details: { limit: "50.00000000", shortfall: "10.00000000" },
+      });
+    });
+
+    it("should let exempt clearing accounts go negative", async () => {
+      const clearing = await ledger.openAccount({
+        accountType: "WALLET",
+        currency: "NGN",
+        balancePolicy: { exempt: true },
+      });
+
+      await expect(post(clearing.id, "-1000.00", "debit-001")).resolves.toBeDefined();
+    });
+
+    it("should cap debit-normal accounts at zero", async () => {
+      const receivable = await ledger.openAccount({ accountType: "RECEIVABLE", currency: "NGN" });
+
+      await expect(post(receivable.id, "-200.00", "invoice-001")).resolves.toBeDefined();
+      await expect(post(receivable.id, "250.00", "payment-001")).rejects.toMatchObject({
+        details: { shortfall: "50.00000000" },
+      });
+    });
+
+    it("should accept postings that move a violating account back toward its limit", async () => {
+      const wallet = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      await storage.createEvents([{
+        id: "legacy",
+        tenantId,
+        accountId: wallet.id,
+        eventType: "LEGACY",
+        amount: "-80.00000000",
+        currency: "NGN",
+        idempotencyKey: "legacy",
+        reversesEventId: null,
+        transactionId: null,
+        description: null,
+        metadata: null,
+        sequenceNumber: 1,
+        hash: "legacy",
+        previousHash: null,
+        context: null,
+        direction: null,
+        sourceType: null,
+        sourceRef: null,
+        effectiveAt: null,
+        createdAt: new Date(),
+      }]);
+
+      await expect(post(wallet.id, "30.00", "credit-001")).resolves.toBeDefined();
+    });
+
+    it("should reject a whole transaction when one leg violates its policy", async () => {
+      const wallet = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      const revenue = await ledger.openAccount({ accountType: "REVENUE", currency: "NGN" });
+
+      await expect(
+        ledger.postTransaction({
+          idempotencyKey: "txn-001",
+          legs: [
+            { accountId: wallet.id, eventType: "DEBIT", amount: "-10.00", currency: "NGN" },
+            { accountId: revenue.id, eventType: "CREDIT", amount: "10.00", currency: "NGN" },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "BALANCE_POLICY_VIOLATION" });
+
+      const balance = await ledger.getAccountBalance(revenue.id);
+      expect(balance.eventCount).toBe(0);
+    });
+
+    it("should reject invalid policies when opening an account", async () => {
+      await expect(
+        ledger.openAccount({
+          accountType: "WALLET",
+          currency: "NGN",
+          balancePolicy: { overdraftLimit: "-5" },
+        })
+      ).rejects.toMatchObject({ code: "INVALID_BALANCE_POLICY" });
+    });
+  });
+
   describe("recordEvent", () => {
     let accountId: string;
 
@@ -95,7 +408,7 @@ describe("Ledger", () => {
       });
 
       expect(event.id).toBeDefined();
-      expect(event.amount).toBe("100.00");
+      expect(event.amount).toBe("100.00000000");
       expect(event.eventType).toBe("CREDIT");
       expect(event.sequenceNumber).toBe(1);
     });
@@ -117,7 +430,7 @@ describe("Ledger", () => {
         idempotencyKey: "debit-001",
       });
 
-      expect(event.amount).toBe("-50.00");
+      expect(event.amount).toBe("-50.00000000");
       expect(event.sequenceNumber).toBe(2);
     });
 
@@ -139,7 +452,7 @@ describe("Ledger", () => {
       });
 
       expect(event1.id).toBe(event2.id);
-      expect(event2.amount).toBe("100.00");
+      expect(event2.amount).toBe("100.00000000");
     });
 
     it("should throw error for non-existent account", async () => {
@@ -166,6 +479,112 @@ describe("Ledger", () => {
       ).rejects.toThrow("Currency mismatch");
     });
 
+    it("should reject malformed amounts", async () => {
+      for (const amount of ["NaN", "1e3", "10.123456789", "", "1,000.00"]) {
+        await expect(
+          ledger.recordEvent({
+            accountId,
+            eventType: "CREDIT",
+            amount,
+            currency: "USD",
+            idempotencyKey: `bad-${amount}`,
+          })
+        ).rejects.toMatchObject({ code: "INVALID_AMOUNT" });
+      }
+    });
+
+    it("should assign gapless sequences to concurrent appends", async () => {
+      const events = await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          ledger.recordEvent({
+            accountId,
+            eventType: "CREDIT",
+            amount: "1.00",
+            currency: "USD",
+            idempotencyKey: `concurrent-${i}`,
+          })
+        )
+      );
+
+      const sequences = events.map((e) => e.sequenceNumber).sort((a, b) => a - b);
+      expect(sequences).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+      const report = await ledger.verifyLedgerIntegrity(accountId);
+      expect(report.valid).toBe(true);
+    });
+
+    it("should append when expectedSequence matches", async () => {
+      const event = await ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+        expectedSequence: 1,
+      });
+
+      expect(event.sequenceNumber).toBe(1);
+    });
+
+    it("should reject when expectedSequence is stale", async () => {
+      await ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      });
+
+      await expect(
+        ledger.recordEvent({
+          accountId,
+          eventType: "CREDIT",
+          amount: "100.00",
+          currency: "USD",
+          idempotencyKey: "credit-002",
+          expectedSequence: 1,
+        })
+      ).rejects.toMatchObject({
+        code: "SEQUENCE_MISMATCH",
+        details: { expectedSequence: 1, actualSequence: 2 },
+      });
+    });
+
+    it("should retry a unit of work that lost a sequence race", async () => {
+      const createEvents = storage.createEvents.bind(storage);
+      vi.spyOn(storage, "createEvents")
+        .mockRejectedValueOnce(new LedgerError("Sequence number already taken", "SEQUENCE_CONFLICT"))
+        .mockImplementation(createEvents);
+
+      const event = await ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      });
+
+      expect(event.sequenceNumber).toBe(1);
+      expect(storage.getAuditEvents().filter((e) => e.action === "EVENT_RECORDED")).toHaveLength(1);
+    });
+
+    it("should raise CONCURRENCY_CONFLICT when retries are exhausted", async () => {
+      ledger = new Ledger({ tenantId, maxConflictRetries: 2 }, storage);
+      const createEvents = vi
+        .spyOn(storage, "createEvents")
+        .mockRejectedValue(new LedgerError("Sequence number already taken", "SEQUENCE_CONFLICT"));
+
+      await expect(
+        ledger.recordEvent({
+          accountId,
+          eventType: "CREDIT",
+          amount: "100.00",
+          currency: "USD",
+          idempotencyKey: "credit-001",
+        })
+      ).rejects.toMatchObject({ code: "CONCURRENCY_CONFLICT", details: { attempts: 3 } });
+      expect(createEvents).toHaveBeenCalledTimes(3);
+    });
+
     it("should emit audit event on recording", async () => {
       storage.getAuditEvents().length;
       
@@ -183,6 +602,164 @@ describe("Ledger", () => {
     });
   });
 
+  describe("holds", () => {
+    let accountId: string;
+
+    beforeEach(async () => {
+      ledger = new Ledger({ tenantId, balancePolicies: { WALLET: { normalSide: "credit" } } }, storage);
+      accountId = (await ledger.openAccount({ accountType: "WALLET", currency: "NGN" })).id;
+      await ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "1000.00",
+        currency: "NGN",
+        idempotencyKey: "seed",
+      });
+    });
+
+    const placeHold = (amount: string, key: string, expiresAt?: Date) =>
+      ledger.placeHold({ accountId, amount, currency: "NGN", idempotencyKey: key, expiresAt });
+
+    it("should reduce the available balance but not the ledger balance", async () => {
+      await placeHold("300.00", "hold-001");
+
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.balance).toBe("1000.00000000");
+      expect(balance.heldAmount).toBe("300.00000000");
+      expect(balance.availableBalance).toBe("700.00000000");
+    });
+
+    it("should be idempotent on the hold key", async () => {
+      const first = await placeHold("300.00", "hold-001");
+      const second = await placeHold("300.00", "hold-001");
+
+      expect(second.id).toBe(first.id);
+      expect((await ledger.getAccountBalance(accountId)).heldAmount).toBe("300.00000000");
+    });
+
+    it("should reject holds and debits beyond the available balance", async () => {
+      await placeHold("800.00", "hold-001");
+
+      await expect(placeHold("300.00", "hold-002")).rejects.toMatchObject({
+        code: "BALANCE_POLICY_VIOLATION",
+        details: { shortfall: "100.00000000" },
+      });
+      await expect(
+        ledger.recordEvent({
+          accountId,
+          eventType: "DEBIT",
+          amount: "-250.00",
+          currency: "NGN",
+          idempotencyKey: "debit-001",
+        })
+      ).rejects.toMatchObject({ code: "BALANCE_POLICY_VIOLATION" });
+    });
+
+    it("should capture a hold in full as a debit event", async () => {
+      const hold = await placeHold("300.00", "hold-001");
+
+      const event = await ledger.captureHold({ holdId: hold.id, idempotencyKey: "capture-001" });
+
+      expect(event.amount).toBe("-300.00000000");
+      expect(event.eventType).toBe("HOLD_CAPTURE");
+      expect(JSON.parse(event.metadata ?? "{}")).toEqual({ holdId: hold.id });
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.balance).toBe("700.00000000");
+      expect(balance.availableBalance).toBe("700.00000000");
+      expect((await ledger.getHold(hold.id)).status).toBe("captured");
+    });
+
+    it("should capture part of a hold and release the remainder", async () => {
+      const hold = await placeHold("300.00", "hold-001");
+
+      await ledger.captureHold({ holdId: hold.id, amount: "120.00", idempotencyKey: "capture-001" });
+
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.balance).toBe("880.00000000");
+      expect(balance.availableBalance).toBe("880.00000000");
+      expect((await ledger.getHold(hold.id)).capturedAmount).toBe("120.00000000");
+    });
+
+    it("should settle a hold only once when two captures race", async () => {
+      const hold = await placeHold("300.00", "hold-001");
+      // Both captures read the hold as active before either settles it.
+      vi.spyOn(storage, "getHoldById").mockResolvedValue(hold);
+
+      const results = await Promise.allSettled([
+        ledger.captureHold({ holdId: hold.id, idempotencyKey: "capture-001" }),
+        ledger.captureHold({ holdId: hold.id, idempotencyKey: "capture-002" }),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+      expect(results[1]).toMatchObject({ reason: { code: "HOLD_NOT_ACTIVE" } });
+      expect((await ledger.getAccountBalance(accountId)).balance).toBe("700.00000000");
+    });
+
+    it("should reject captures larger than the hold", async () => {
+      const hold = await placeHold("300.00", "hold-001");
+
+      await expect(
+        ledger.captureHold({ holdId: hold.id, amount: "300.01", idempotencyKey: "capture-001" })
+      ).rejects.toMatchObject({ code: "INVALID_CAPTURE_AMOUNT" });
+    });
+
+    it("should release a hold without recording an event", async () => {
+      const hold = await placeHold("300.00", "hold-001");
+
+      const released = await ledger.releaseHold({ holdId: hold.id, reason: "Order cancelled" });
+
+      expect(released.status).toBe("released");
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.availableBalance).toBe("1000.00000000");
+      expect(balance.eventCount).toBe(1);
+      await expect(
+        ledger.captureHold({ holdId: hold.id, idempotencyKey: "capture-001" })
+      ).rejects.toMatchObject({ code: "HOLD_NOT_ACTIVE" });
+    });
+
+    it("should ignore expired holds and refuse to capture them", async () => {
+      const hold = await placeHold("300.00", "hold-001", new Date(Date.now() - 1000));
+
+      expect((await ledger.getAccountBalance(accountId)).availableBalance).toBe("1000.00000000");
+      await expect(
+        ledger.captureHold({ holdId: hold.id, idempotencyKey: "capture-001" })
+      ).rejects.toMatchObject({ code: "HOLD_EXPIRED" });
+    });
+
+    it("should only close accounts without active holds", async () => {
+      const overdraft = await ledger.openAccount({
+        accountType: "WALLET",
+        currency: "NGN",
+        balancePolicy: { overdraftLimit: "100.00" },
+      });
+      const hold = await ledger.placeHold({
+        accountId: overdraft.id,
+        amount: "50.00",
+        currency: "NGN",
+        idempotencyKey: "hold-001",
+      });
+
+      await expect(ledger.closeAccount(overdraft.id, { reason: "Customer request" })).rejects.toMatchObject({
+        code: "ACTIVE_HOLDS",
+        details: { holdIds: [hold.id] },
+      });
+
+      await ledger.releaseHold({ holdId: hold.id });
+      const closed = await ledger.closeAccount(overdraft.id, { reason: "Customer request" });
+      expect(closed.status).toBe("closed");
+    });
+
+    it("should audit hold placement, capture and release", async () => {
+      const first = await placeHold("100.00", "hold-001");
+      const second = await placeHold("100.00", "hold-002");
+      await ledger.captureHold({ holdId: first.id, idempotencyKey: "capture-001" });
+      await ledger.releaseHold({ holdId: second.id });
+
+      const actions = storage.getAuditEvents().filter((e) => e.entityType === "hold").map((e) => e.action);
+      expect(actions).toEqual(["HOLD_PLACED", "HOLD_PLACED", "HOLD_CAPTURED", "HOLD_RELEASED"]);
+    });
+  });
+
   describe("reverseEvent", () => {
     let accountId: string;
     let originalEventId: string;
@@ -211,7 +788,7 @@ describe("Ledger", () => {
       });
 
       expect(reversal.eventType).toBe("REVERSAL");
-      expect(reversal.amount).toBe("-100");
+      expect(reversal.amount).toBe("-100.00000000");
       expect(reversal.reversesEventId).toBe(originalEventId);
     });
 
@@ -252,37 +829,227 @@ describe("Ledger", () => {
       ).rejects.toThrow("has already been reversed");
     });
 
-    it("should emit audit event on reversal", async () => {
-      await ledger.reverseEvent({
+    it("should reverse part of an event", async () => {
+      const reversal = await ledger.reverseEvent({
         originalEventId,
-        idempotencyKey: "reversal-001",
+        amount: "40.00",
+        idempotencyKey: "refund-001",
       });
 
-      const auditEvents = storage.getAuditEvents();
-      const reversalEvent = auditEvents.find((e) => e.action === "EVENT_REVERSED");
-      expect(reversalEvent).toBeDefined();
+      expect(reversal.amount).toBe("-40.00000000");
+      expect((await ledger.getAccountBalance(accountId)).balance).toBe("60.00000000");
     });
-  });
 
-  describe("getAccountBalance", () => {
-    let accountId: string;
+    it("should allow several partial reversals up to the original amount", async () => {
+      await ledger.reverseEvent({ originalEventId, amount: "40.00", idempotencyKey: "refund-001" });
+      await ledger.reverseEvent({ originalEventId, amount: "35.00", idempotencyKey: "refund-002" });
 
-    beforeEach(async () => {
-      const account = await ledger.openAccount({
-        accountType: "CASH",
-        currency: "USD",
+      await expect(
+        ledger.reverseEvent({ originalEventId, amount: "25.01", idempotencyKey: "refund-003" })
+      ).rejects.toMatchObject({
+        code: "OVER_REVERSAL",
+        details: { remainingAmount: "25.00000000" },
       });
-      accountId = account.id;
+
+      const rest = await ledger.reverseEvent({ originalEventId, idempotencyKey: "refund-003" });
+      expect(rest.amount).toBe("-25.00000000");
+      await expect(
+        ledger.reverseEvent({ originalEventId, amount: "1.00", idempotencyKey: "refund-004" })
+      ).rejects.toMatchObject({ code: "ALREADY_REVERSED" });
+
+      const report = await ledger.verifyLedgerIntegrity(accountId);
+      expect(report.valid).toBe(true);
     });
 
-    it("should return zero balance for new account", async () => {
-      const balance = await ledger.getAccountBalance(accountId);
-      expect(balance.balance).toBe("0.00000000");
-      expect(balance.eventCount).toBe(0);
+    it("should expose each event's reversal status", async () => {
+      expect((await ledger.getReversalStatus(originalEventId)).status).toBe("none");
+
+      const partial = await ledger.reverseEvent({ originalEventId, amount: "40.00", idempotencyKey: "refund-001" });
+      expect(await ledger.getReversalStatus(originalEventId)).toEqual({
+        eventId: originalEventId,
+        originalAmount: "100.00000000",
+        reversedAmount: "40.00000000",
+        remainingAmount: "60.00000000",
+        status: "partial",
+        reversalEventIds: [partial.id],
+      });
+
+      await ledger.reverseEvent({ originalEventId, idempotencyKey: "refund-002" });
+      expect((await ledger.getReversalStatus(originalEventId)).status).toBe("full");
     });
 
-    it("should calculate balance from events (derived, never stored)", async () => {
-      await ledger.recordEvent({
+    it("should reverse debits with a credit", async () => {
+      const debit = await ledger.recordEvent({
+        accountId,
+        eventType: "DEBIT",
+        amount: "-30.00",
+        currency: "USD",
+        idempotencyKey: "debit-001",
+      });
+
+      const reversal = await ledger.reverseEvent({
+        originalEventId: debit.id,
+        amount: "10.00",
+        idempotencyKey: "refund-001",
+      });
+      expect(reversal.amount).toBe("10.00000000");
+    });
+
+    it("should emit audit event on reversal", async () => {
+      await ledger.reverseEvent({
+        originalEventId,
+        idempotencyKey: "reversal-001",
+      });
+
+      const auditEvents = storage.getAuditEvents();
+      const reversalEvent = auditEvents.find((e) => e.action === "EVENT_REVERSED");
+      expect(reversalEvent).toBeDefined();
+    });
+  });
+
+  describe("postTransaction", () => {
+    let walletId: string;
+    let revenueId: string;
+
+    beforeEach(async () => {
+      const wallet = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      const revenue = await ledger.openAccount({ accountType: "REVENUE", currency: "NGN" });
+      walletId = wallet.id;
+      revenueId = revenue.id;
+    });
+
+    it("should post balanced legs under one transaction id", async () => {
+      const transaction = await ledger.postTransaction({
+        idempotencyKey: "txn-001",
+        description: "Service fee",
+        legs: [
+          { accountId: walletId, eventType: "DEBIT", amount: "-250.00", currency: "NGN" },
+          { accountId: revenueId, eventType: "CREDIT", amount: "250.00", currency: "NGN" },
+        ],
+      });
+
+      expect(transaction.events.length).toBe(2);
+      expect(transaction.events.every((e) => e.transactionId === transaction.transactionId)).toBe(true);
+      expect(transaction.events[0].description).toBe("Service fee");
+
+      const walletBalance = await ledger.getAccountBalance(walletId);
+      const revenueBalance = await ledger.getAccountBalance(revenueId);
+      expect(walletBalance.balance).toBe("-250.00000000");
+      expect(revenueBalance.balance).toBe("250.00000000");
+    });
+
+    it("should reject legs that do not net to zero", async () => {
+      await expect(
+        ledger.postTransaction({
+          idempotencyKey: "txn-001",
+          legs: [
+            { accountId: walletId, eventType: "DEBIT", amount: "-250.00", currency: "NGN" },
+            { accountId: revenueId, eventType: "CREDIT", amount: "200.00", currency: "NGN" },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "UNBALANCED_TRANSACTION" });
+
+      const balance = await ledger.getAccountBalance(walletId);
+      expect(balance.eventCount).toBe(0);
+    });
+
+    it("should reject a transaction with a single leg", async () => {
+      await expect(
+        ledger.postTransaction({
+          idempotencyKey: "txn-001",
+          legs: [{ accountId: walletId, eventType: "CREDIT", amount: "10.00", currency: "NGN" }],
+        })
+      ).rejects.toMatchObject({ code: "INVALID_TRANSACTION" });
+    });
+
+    it("should write nothing when any leg targets a missing account", async () => {
+      await expect(
+        ledger.postTransaction({
+          idempotencyKey: "txn-001",
+          legs: [
+            { accountId: walletId, eventType: "DEBIT", amount: "-10.00", currency: "NGN" },
+            { accountId: "missing", eventType: "CREDIT", amount: "10.00", currency: "NGN" },
+          ],
+        })
+      ).rejects.toThrow("Account missing not found");
+
+      const balance = await ledger.getAccountBalance(walletId);
+      expect(balance.eventCount).toBe(0);
+    });
+
+    it("should enforce idempotency on the transaction key", async () => {
+      const legs = [
+        { accountId: walletId, eventType: "DEBIT", amount: "-5.00", currency: "NGN" },
+        { accountId: revenueId, eventType: "CREDIT", amount: "5.00", currency: "NGN" },
+      ];
+      const first = await ledger.postTransaction({ idempotencyKey: "txn-001", legs });
+      const second = await ledger.postTransaction({ idempotencyKey: "txn-001", legs });
+
+      expect(second.transactionId).toBe(first.transactionId);
+      const balance = await ledger.getAccountBalance(walletId);
+      expect(balance.eventCount).toBe(1);
+    });
+
+    it("should show sibling legs in statements and integrity reports", async () => {
+      const transaction = await ledger.postTransaction({
+        idempotencyKey: "txn-001",
+        legs: [
+          { accountId: walletId, eventType: "DEBIT", amount: "-5.00", currency: "NGN" },
+          { accountId: revenueId, eventType: "CREDIT", amount: "5.00", currency: "NGN" },
+        ],
+      });
+
+      const statement = await ledger.getAccountStatement(walletId, { includeSiblingLegs: true });
+      expect(statement.entries[0].transactionId).toBe(transaction.transactionId);
+      expect(statement.entries[0].siblingLegs).toEqual([
+        { eventId: transaction.events[1].id, accountId: revenueId, amount: "5.00000000", currency: "NGN" },
+      ]);
+
+      const report = await ledger.verifyLedgerIntegrity(walletId);
+      expect(report.valid).toBe(true);
+      expect(report.transactions).toHaveLength(1);
+      expect(report.transactions[0].legs).toHaveLength(2);
+    });
+  });
+
+  describe("getAccountBalance", () => {
+    let accountId: string;
+
+    beforeEach(async () => {
+      const account = await ledger.openAccount({
+        accountType: "CASH",
+        currency: "USD",
+      });
+      accountId = account.id;
+    });
+
+    it("should return zero balance for new account", async () => {
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.balance).toBe("0.00000000");
+      expect(balance.eventCount).toBe(0);
+    });
+
+    it("should read balances larger than any single amount", async () => {
+      for (const key of ["big-1", "big-2"]) {
+        await ledger.recordEvent({
+          accountId,
+          eventType: "CREDIT",
+          amount: "999999999999.00",
+          currency: "USD",
+          idempotencyKey: key,
+        });
+      }
+      await ledger.createBalanceSnapshot(accountId);
+      await ledger.recordEvent({ accountId, eventType: "CREDIT", amount: "5.00", currency: "USD", idempotencyKey: "big-3" });
+
+      expect((await ledger.getAccountBalance(accountId)).balance).toBe("2000000000003.00000000");
+      expect((await ledger.getRollupBalance(accountId)).rollupBalance).toBe("2000000000003.00000000");
+      expect((await ledger.getAccountStatement(accountId)).closingBalance).toBe("2000000000003.00000000");
+      expect((await ledger.verifyLedgerIntegrity(accountId)).valid).toBe(true);
+    });
+
+    it("should calculate balance from events (derived, never stored)", async () => {
+      await ledger.recordEvent({
         accountId,
         eventType: "CREDIT",
         amount: "100.50",
@@ -303,6 +1070,82 @@ describe("Ledger", () => {
       expect(balance.eventCount).toBe(2);
     });
 
+    it("should sum amounts exactly without floating point drift", async () => {
+      for (let i = 0; i < 10; i++) {
+        await ledger.recordEvent({
+          accountId,
+          eventType: "CREDIT",
+          amount: "0.1",
+          currency: "USD",
+          idempotencyKey: `credit-${i}`,
+        });
+      }
+      await ledger.recordEvent({
+        accountId,
+        eventType: "DEBIT",
+        amount: "-0.3",
+        currency: "USD",
+        idempotencyKey: "debit-001",
+      });
+
+      const balance = await ledger.getAccountBalance(accountId);
+      expect(balance.balance).toBe("0.70000000");
+    });
+
+    describe("point-in-time", () => {
+      beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const postings = [
+          { at: "2026-01-31T10:00:00Z", amount: "100.00" },
+          { at: "2026-02-15T10:00:00Z", amount: "-40.00" },
+          { at: "2026-03-01T10:00:00Z", amount: "25.00" },
+        ];
+        for (const [i, posting] of postings.entries()) {
+          vi.setSystemTime(new Date(posting.at));
+          await ledger.recordEvent({
+            accountId,
+            eventType: "POSTING",
+            amount: posting.amount,
+            currency: "USD",
+            idempotencyKey: `posting-${i}`,
+          });
+        }
+        vi.useRealTimers();
+      });
+
+      it("should return the balance as of a timestamp", async () => {
+        const asOf = new Date("2026-02-28T23:59:59Z");
+        const balance = await ledger.getAccountBalance(accountId, { asOf });
+
+        expect(balance.balance).toBe("60.00000000");
+        expect(balance.eventCount).toBe(2);
+        expect(balance.asOf).toEqual(asOf);
+      });
+
+      it("should return the balance as of a sequence number", async () => {
+        const balance = await ledger.getAccountBalance(accountId, { asOfSequence: 1 });
+
+        expect(balance.balance).toBe("100.00000000");
+        expect(balance.eventCount).toBe(1);
+        expect(balance.asOfSequence).toBe(1);
+      });
+
+      it("should return zero before the first event", async () => {
+        const balance = await ledger.getAccountBalance(accountId, {
+          asOf: new Date("2026-01-01T00:00:00Z"),
+        });
+
+        expect(balance.balance).toBe("0.00000000");
+        expect(balance.eventCount).toBe(0);
+      });
+
+      it("should not load the event history", async () => {
+        const getEvents = vi.spyOn(storage, "getEventsByAccountId");
+        await ledger.getAccountBalance(accountId, { asOfSequence: 2 });
+        expect(getEvents).not.toHaveBeenCalled();
+      });
+    });
+
     it("should throw error for non-existent account", async () => {
       await expect(ledger.getAccountBalance("non-existent")).rejects.toThrow(
         "Account non-existent not found"
@@ -310,6 +1153,767 @@ describe("Ledger", () => {
     });
   });
 
+  describe("accounting periods", () => {
+    let cashId: string;
+    let revenueId: string;
+
+    const at = (iso: string) => vi.setSystemTime(new Date(iso));
+    const sale = (key: string, amount: string, effectiveAt?: string) =>
+      ledger.postTransaction({
+        idempotencyKey: key,
+        effectiveAt: effectiveAt ? new Date(effectiveAt) : undefined,
+        legs: [
+          { accountId: cashId, eventType: "DEBIT", amount, currency: "USD" },
+          { accountId: revenueId, eventType: "CREDIT", amount: `-${amount}`, currency: "USD" },
+        ],
+      });
+    const openMonth = (name: string, start: string, end: string) =>
+      ledger.openPeriod({ periodId: name, name, startsAt: new Date(start), endsAt: new Date(end) });
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      at("2026-01-01T00:00:00Z");
+      cashId = (await ledger.openAccount({ accountType: "CASH", currency: "USD" })).id;
+      revenueId = (await ledger.openAccount({ accountType: "REVENUE", currency: "USD" })).id;
+      await openMonth("2026-01", "2026-01-01T00:00:00Z", "2026-01-31T23:59:59.999Z");
+      await openMonth("2026-02", "2026-02-01T00:00:00Z", "2026-02-28T23:59:59.999Z");
+      await openMonth("2026-03", "2026-03-01T00:00:00Z", "2026-03-31T23:59:59.999Z");
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should reject overlapping, duplicate and malformed periods", async () => {
+      await expect(openMonth("2026-01b", "2026-01-15T00:00:00Z", "2026-02-15T00:00:00Z")).rejects.toMatchObject({
+        code: "PERIOD_OVERLAP",
+      });
+      await expect(openMonth("2026-01", "2027-01-01T00:00:00Z", "2027-01-31T00:00:00Z")).rejects.toMatchObject({
+        code: "PERIOD_EXISTS",
+      });
+      await expect(openMonth("backwards", "2027-02-01T00:00:00Z", "2027-01-01T00:00:00Z")).rejects.toMatchObject({
+        code: "INVALID_PERIOD",
+      });
+    });
+
+    it("should snapshot every account's balances when a period closes", async () => {
+      at("2026-01-10T00:00:00Z");
+      await sale("jan-1", "100.00");
+      await sale("jan-2", "50.00");
+      at("2026-02-03T00:00:00Z");
+      await expect(ledger.closePeriod("2026-02")).rejects.toMatchObject({ code: "PERIOD_NOT_ENDED" });
+
+      const report = await ledger.closePeriod("2026-01", { actorId: "controller-1" });
+
+      expect(report.period).toMatchObject({ status: "closed", closedBy: "controller-1" });
+      expect(report.previousPeriodId).toBeNull();
+      expect(report.accounts.find((a) => a.accountId === cashId)).toEqual({
+        accountId: cashId,
+        currency: "USD",
+        openingBalance: "0.00000000",
+        closingBalance: "150.00000000",
+        movement: "150.00000000",
+        eventCount: 2,
+        previousMovement: null,
+        movementChange: null,
+      });
+      expect(await ledger.getPeriodCloseReport("2026-01")).toEqual(report);
+    });
+
+    it("should report period-over-period movement", async () => {
+      at("2026-01-10T00:00:00Z");
+      await sale("jan-1", "100.00");
+      at("2026-02-10T00:00:00Z");
+      await sale("feb-1", "40.00");
+      await sale("feb-2", "20.00");
+      at("2026-03-02T00:00:00Z");
+      await expect(ledger.closePeriod("2026-02")).rejects.toMatchObject({ code: "PREVIOUS_PERIOD_OPEN" });
+      await ledger.closePeriod("2026-01");
+
+      const report = await ledger.closePeriod("2026-02");
+      expect(report.previousPeriodId).toBe("2026-01");
+      expect(report.accounts.find((a) => a.accountId === revenueId)).toMatchObject({
+        openingBalance: "-100.00000000",
+        closingBalance: "-160.00000000",
+        movement: "-60.00000000",
+        previousMovement: "-100.00000000",
+        movementChange: "40.00000000",
+      });
+    });
+
+    it("should reject postings into a closed period and book late corrections in the open one", async () => {
+      at("2026-01-10T00:00:00Z");
+      const { events } = await sale("jan-1", "100.00");
+      at("2026-02-01T06:00:00Z");
+      await sale("jan-2", "20.00", "2026-01-31T12:00:00Z");
+      at("2026-02-02T00:00:00Z");
+      const january = await ledger.closePeriod("2026-01");
+      expect(january.accounts.find((a) => a.accountId === cashId)).toMatchObject({
+        closingBalance: "120.00000000",
+        eventCount: 2,
+      });
+
+      await expect(sale("late-1", "5.00", "2026-01-31T12:00:00Z")).rejects.toMatchObject({
+        code: "PERIOD_CLOSED",
+        details: { periodId: "2026-01" },
+      });
+
+      at("2026-02-05T00:00:00Z");
+      await ledger.reverseEvent({ originalEventId: events[0].id, idempotencyKey: "fix-jan-1" });
+
+      expect(await ledger.getPeriodCloseReport("2026-01")).toEqual(january);
+      expect((await ledger.getAccountBalance(cashId)).balance).toBe("20.00000000");
+      at("2026-03-01T00:00:00Z");
+      const february = await ledger.closePeriod("2026-02");
+      expect(february.accounts.find((a) => a.accountId === cashId)).toMatchObject({
+        openingBalance: "120.00000000",
+        movement: "-100.00000000",
+      });
+    });
+
+    it("should reopen only the latest closed period", async () => {
+      at("2026-03-01T00:00:00Z");
+      await ledger.closePeriod("2026-01");
+      await ledger.closePeriod("2026-02");
+
+      await expect(ledger.reopenPeriod("2026-01", { reason: "audit adjustment" })).rejects.toMatchObject({
+        code: "LATER_PERIOD_CLOSED",
+      });
+      const reopened = await ledger.reopenPeriod("2026-02", { reason: "audit adjustment", actorId: "controller-1" });
+      expect(reopened).toMatchObject({ status: "open", closedAt: null });
+      await expect(ledger.reopenPeriod("2026-02", { reason: "again" })).rejects.toMatchObject({
+        code: "INVALID_STATUS_TRANSITION",
+      });
+      await expect(ledger.getPeriodCloseReport("2026-02")).rejects.toMatchObject({ code: "PERIOD_NOT_CLOSED" });
+
+      const audit = storage.getAuditEvents().filter((e) => e.entityType === "period").map((e) => e.action);
+      expect(audit).toEqual([
+        "PERIOD_OPENED",
+        "PERIOD_OPENED",
+        "PERIOD_OPENED",
+        "PERIOD_CLOSED",
+        "PERIOD_CLOSED",
+        "PERIOD_REOPENED",
+      ]);
+    });
+  });
+
+  describe("value dates", () => {
+    let walletId: string;
+
+    const at = (iso: string) => vi.setSystemTime(new Date(iso));
+    const credit = (key: string, amount: string, effectiveAt?: string, sourceType?: "payment" | "adjustment") =>
+      ledger.recordEvent({
+        accountId: walletId,
+        eventType: "CREDIT",
+        amount,
+        currency: "USD",
+        idempotencyKey: key,
+        effectiveAt: effectiveAt ? new Date(effectiveAt) : undefined,
+        sourceType,
+      });
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      at("2026-01-01T00:00:00Z");
+      walletId = (await ledger.openAccount({ accountType: "WALLET", currency: "USD" })).id;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should record a backdated value date within the configured window", async () => {
+      at("2026-01-10T00:00:00Z");
+      const event = await credit("late-1", "10.00", "2026-01-05T00:00:00Z");
+
+      expect(event.createdAt).toEqual(new Date("2026-01-10T00:00:00Z"));
+      expect(event.effectiveAt).toEqual(new Date("2026-01-05T00:00:00Z"));
+      expect((await ledger.verifyLedgerIntegrity(walletId)).valid).toBe(true);
+
+      await expect(credit("late-2", "10.00", "2026-01-01T00:00:00Z")).rejects.toMatchObject({
+        code: "INVALID_VALUE_DATE",
+      });
+      await expect(credit("future-1", "10.00", "2026-01-11T00:00:00Z")).rejects.toMatchObject({
+        code: "INVALID_VALUE_DATE",
+      });
+
+      const forwardLedger = new Ledger(
+        { tenantId, valueDateWindow: { maxBackdateMs: 0, maxForwardMs: 24 * 60 * 60 * 1000 } },
+        storage
+      );
+      await expect(forwardLedger.recordEvent({
+        accountId: walletId,
+        eventType: "CREDIT",
+        amount: "1.00",
+        currency: "USD",
+        idempotencyKey: "future-2",
+        effectiveAt: new Date("2026-01-10T12:00:00Z"),
+      })).resolves.toMatchObject({ effectiveAt: new Date("2026-01-10T12:00:00Z") });
+      expect(() => new Ledger({ tenantId, valueDateWindow: { maxBackdateMs: -1 } }, storage)).toThrow(
+        expect.objectContaining({ code: "INVALID_CONFIG" })
+      );
+    });
+
+    it("should derive balances by booking or value date", async () => {
+      at("2026-01-10T00:00:00Z");
+      await credit("on-time", "100.00");
+      await credit("late", "25.00", "2026-01-05T00:00:00Z");
+
+      const asOf = new Date("2026-01-07T00:00:00Z");
+      expect((await ledger.getAccountBalance(walletId, { asOf })).balance).toBe("0.00000000");
+      expect((await ledger.getAccountBalance(walletId, { asOf, dateBasis: "value" })).balance).toBe("25.00000000");
+      expect((await ledger.getRollupBalance(walletId, { asOf, dateBasis: "value" })).balance).toBe("25.00000000");
+      expect((await ledger.getAccountBalance(walletId, { dateBasis: "value" })).balance).toBe("125.00000000");
+    });
+
+    it("should order statements by value date when asked", async () => {
+      at("2026-01-10T00:00:00Z");
+      await credit("a", "1.00");
+      at("2026-01-11T00:00:00Z");
+      await credit("b", "2.00", "2026-01-09T00:00:00Z");
+      at("2026-01-12T00:00:00Z");
+      await credit("c", "4.00", "2026-01-06T00:00:00Z");
+
+      const full = await ledger.getAccountStatement(walletId, { dateBasis: "value" });
+      expect(full.entries.map((e) => e.amount)).toEqual(["4.00000000", "2.00000000", "1.00000000"]);
+      expect(full.entries.map((e) => e.runningBalance)).toEqual(["4.00000000", "6.00000000", "7.00000000"]);
+      expect(full.entries[0].effectiveAt).toEqual(new Date("2026-01-06T00:00:00Z"));
+
+      const first = await ledger.getAccountStatement(walletId, { dateBasis: "value", limit: 2 });
+      const second = await ledger.getAccountStatement(walletId, {
+        dateBasis: "value",
+        limit: 2,
+        cursor: first.nextCursor!,
+      });
+      expect(second.openingBalance).toBe("6.00000000");
+      expect(second.entries.map((e) => e.amount)).toEqual(["1.00000000"]);
+      await expect(
+        ledger.getAccountStatement(walletId, { limit: 2, cursor: first.nextCursor! })
+      ).rejects.toMatchObject({ code: "INVALID_CURSOR" });
+
+      const window = await ledger.getAccountStatement(walletId, {
+        dateBasis: "value",
+        fromDate: new Date("2026-01-08T00:00:00Z"),
+      });
+      expect(window.openingBalance).toBe("4.00000000");
+      expect(window.entries.map((e) => e.amount)).toEqual(["2.00000000", "1.00000000"]);
+
+      const booking = await ledger.getAccountStatement(walletId);
+      expect(booking.entries.map((e) => e.amount)).toEqual(["1.00000000", "2.00000000", "4.00000000"]);
+    });
+
+    it("should reject value dates in a closed period unless the event is a correction", async () => {
+      await ledger.openPeriod({
+        periodId: "2026-01-a",
+        name: "2026-01-a",
+        startsAt: new Date("2026-01-01T00:00:00Z"),
+        endsAt: new Date("2026-01-04T23:59:59.999Z"),
+      });
+      at("2026-01-06T00:00:00Z");
+      await ledger.closePeriod("2026-01-a");
+
+      await expect(credit("pay-1", "5.00", "2026-01-03T00:00:00Z", "payment")).rejects.toMatchObject({
+        code: "PERIOD_CLOSED",
+      });
+      const adjustment = await credit("adj-1", "5.00", "2026-01-03T00:00:00Z", "adjustment");
+      expect(adjustment.effectiveAt).toBeNull();
+      expect(adjustment.createdAt).toEqual(new Date("2026-01-06T00:00:00Z"));
+    });
+  });
+
+  describe("event taxonomy", () => {
+    let walletId: string;
+
+    beforeEach(async () => {
+      walletId = (await ledger.openAccount({ accountType: "WALLET", currency: "NGN" })).id;
+    });
+
+    it("should derive the sign of the amount from the direction", async () => {
+      const credit = await ledger.recordEvent({
+        accountId: walletId,
+        eventType: "TOP_UP",
+        direction: "credit",
+        amount: "500.00",
+        currency: "NGN",
+        sourceType: "payment",
+        sourceRef: "pay-001",
+        idempotencyKey: "top-up-001",
+      });
+      const debit = await ledger.recordEvent({
+        accountId: walletId,
+        eventType: "FEE",
+        direction: "debit",
+        amount: "20.00",
+        currency: "NGN",
+        sourceType: "pricing",
+        sourceRef: "price-list-7",
+        idempotencyKey: "fee-001",
+      });
+
+      expect(credit).toMatchObject({ amount: "500.00000000", direction: "credit", sourceType: "payment", sourceRef: "pay-001" });
+      expect(debit).toMatchObject({ amount: "-20.00000000", direction: "debit", sourceType: "pricing" });
+      expect((await ledger.getAccountBalance(walletId)).balance).toBe("480.00000000");
+      expect((await ledger.verifyLedgerIntegrity(walletId)).valid).toBe(true);
+    });
+
+    it("should derive the direction of signed amounts recorded without one", async () => {
+      const event = await ledger.recordEvent({
+        accountId: walletId,
+        eventType: "DEBIT",
+        amount: "-5.00",
+        currency: "NGN",
+        idempotencyKey: "legacy-001",
+      });
+      expect(event).toMatchObject({ direction: "debit", sourceType: null, sourceRef: null });
+    });
+
+    it("should validate direction, source type and source reference", async () => {
+      const record = (overrides: Record<string, unknown>) =>
+        ledger.recordEvent({
+          accountId: walletId,
+          eventType: "TOP_UP",
+          amount: "5.00",
+          currency: "NGN",
+          idempotencyKey: "invalid-001",
+          ...overrides,
+        });
+
+      await expect(record({ direction: "debit", amount: "-5.00" })).rejects.toMatchObject({ code: "INVALID_AMOUNT" });
+      await expect(record({ direction: "sideways" })).rejects.toMatchObject({ code: "INVALID_DIRECTION" });
+      await expect(record({ sourceType: "gift" })).rejects.toMatchObject({ code: "INVALID_SOURCE_TYPE" });
+      await expect(record({ sourceType: "reversal" })).rejects.toMatchObject({ code: "INVALID_SOURCE_TYPE" });
+      await expect(record({ sourceRef: "" })).rejects.toMatchObject({ code: "INVALID_SOURCE_REF" });
+      await expect(record({ sourceRef: "x".repeat(256) })).rejects.toMatchObject({ code: "INVALID_SOURCE_REF" });
+    });
+
+    it("should stamp reversals with the reversal source type and the original reference", async () => {
+      const payment = await ledger.recordEvent({
+        accountId: walletId,
+        eventType: "TOP_UP",
+        direction: "credit",
+        amount: "100.00",
+        currency: "NGN",
+        sourceType: "payment",
+        sourceRef: "pay-002",
+        idempotencyKey: "top-up-002",
+      });
+      const reversal = await ledger.reverseEvent({ originalEventId: payment.id, idempotencyKey: "refund-002" });
+
+      expect(reversal).toMatchObject({ direction: "debit", sourceType: "reversal", sourceRef: "pay-002" });
+    });
+
+    it("should query events by source type and reference with pagination", async () => {
+      const credit = (key: string, sourceType: "payment" | "incentive", sourceRef: string) =>
+        ledger.recordEvent({
+          accountId: walletId,
+          eventType: "CREDIT",
+          direction: "credit",
+          amount: "1.00",
+          currency: "NGN",
+          sourceType,
+          sourceRef,
+          idempotencyKey: key,
+        });
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-03-01T09:00:00Z"));
+      await credit("c-1", "payment", "pay-1");
+      vi.setSystemTime(new Date("2026-03-01T09:01:00Z"));
+      await credit("c-2", "incentive", "promo-1");
+      vi.setSystemTime(new Date("2026-03-01T09:02:00Z"));
+      await credit("c-3", "payment", "pay-2");
+      vi.setSystemTime(new Date("2026-03-01T09:03:00Z"));
+      await credit("c-4", "payment", "pay-1");
+      vi.useRealTimers();
+
+      const byRef = await ledger.getEventsBySource({ sourceRef: "pay-1" });
+      expect(byRef.events.map((e) => e.idempotencyKey)).toEqual(["c-1", "c-4"]);
+
+      const first = await ledger.getEventsBySource({ sourceType: "payment", limit: 2 });
+      expect(first.events.map((e) => e.idempotencyKey)).toEqual(["c-1", "c-3"]);
+      const second = await ledger.getEventsBySource({ sourceType: "payment", limit: 2, cursor: first.nextCursor! });
+      expect(second.events.map((e) => e.idempotencyKey)).toEqual(["c-4"]);
+      expect(second.nextCursor).toBeNull();
+
+      await expect(ledger.getEventsBySource({ cursor: "garbage" })).rejects.toMatchObject({ code: "INVALID_CURSOR" });
+    });
+
+    it("should only accept registered event types when a registry is configured", async () => {
+      const registered = new Ledger(
+        {
+          tenantId,
+          eventTypes: {
+            COMMISSION: { direction: "credit", sourceTypes: ["pricing", "incentive"] },
+            ADJUSTMENT: { sourceTypes: ["adjustment"] },
+          },
+        },
+        storage
+      );
+      const record = (eventType: string, direction: "credit" | "debit", sourceType?: "pricing" | "adjustment" | "payment") =>
+        registered.recordEvent({
+          accountId: walletId,
+          eventType,
+          direction,
+          amount: "10.00",
+          currency: "NGN",
+          sourceType,
+          idempotencyKey: `${eventType}-${direction}-${sourceType}`,
+        });
+
+      await record("COMMISSION", "credit", "pricing");
+      await record("ADJUSTMENT", "debit", "adjustment");
+      await record("CREDIT", "credit");
+      await expect(record("TIP", "credit")).rejects.toMatchObject({ code: "UNKNOWN_EVENT_TYPE" });
+      await expect(record("COMMISSION", "debit", "pricing")).rejects.toMatchObject({ code: "EVENT_DIRECTION_MISMATCH" });
+      await expect(record("COMMISSION", "credit", "payment")).rejects.toMatchObject({ code: "SOURCE_TYPE_NOT_ALLOWED" });
+      await expect(record("DEBIT", "credit")).rejects.toMatchObject({ code: "EVENT_DIRECTION_MISMATCH" });
+
+      expect(Object.keys(registered.getEventTypes())).toEqual(["CREDIT", "DEBIT", "COMMISSION", "ADJUSTMENT"]);
+      expect(() => new Ledger({ tenantId, eventTypes: { REVERSAL: {} } }, storage)).toThrow(
+        expect.objectContaining({ code: "INVALID_CONFIG" })
+      );
+    });
+
+    it("should stamp a transaction's source on every leg", async () => {
+      const revenueId = (await ledger.openAccount({ accountType: "REVENUE", currency: "NGN" })).id;
+      const transaction = await ledger.postTransaction({
+        idempotencyKey: "sale-001",
+        sourceType: "pricing",
+        sourceRef: "order-9",
+        legs: [
+          { accountId: walletId, eventType: "DEBIT", direction: "debit", amount: "75.00", currency: "NGN" },
+          { accountId: revenueId, eventType: "CREDIT", direction: "credit", amount: "75.00", currency: "NGN" },
+        ],
+      });
+
+      expect(transaction.events.map((e) => [e.amount, e.direction, e.sourceRef])).toEqual([
+        ["-75.00000000", "debit", "order-9"],
+        ["75.00000000", "credit", "order-9"],
+      ]);
+    });
+  });
+
+  describe("currencies", () => {
+    it("should reject currencies outside ISO 4217", async () => {
+      await expect(ledger.openAccount({ accountType: "CASH", currency: "XYZ" })).rejects.toMatchObject({
+        code: "UNKNOWN_CURRENCY",
+      });
+    });
+
+    it("should lock a tenant to its allowed currencies", async () => {
+      const naira = new Ledger({ tenantId, allowedCurrencies: ["NGN"] }, storage);
+      await naira.openAccount({ accountType: "WALLET", currency: "NGN" });
+      await expect(naira.openAccount({ accountType: "WALLET", currency: "USD" })).rejects.toMatchObject({
+        code: "CURRENCY_NOT_ALLOWED",
+        details: { currency: "USD", allowedCurrencies: ["NGN"] },
+      });
+
+      const dollars = await ledger.openAccount({ accountType: "WALLET", currency: "USD" });
+      await expect(
+        naira.recordEvent({ accountId: dollars.id, eventType: "CREDIT", amount: "1.00", currency: "USD", idempotencyKey: "usd-1" })
+      ).rejects.toMatchObject({ code: "CURRENCY_NOT_ALLOWED" });
+    });
+
+    it("should reject allow-lists naming unknown currencies", () => {
+      expect(() => new Ledger({ tenantId, allowedCurrencies: ["NGN", "ABC"] }, storage)).toThrow(
+        expect.objectContaining({ code: "INVALID_CONFIG" })
+      );
+    });
+
+    it("should reject amounts finer than the currency's minor unit", async () => {
+      const ngn = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      const jpy = await ledger.openAccount({ accountType: "WALLET", currency: "JPY" });
+      const kwd = await ledger.openAccount({ accountType: "WALLET", currency: "KWD" });
+      const credit = (accountId: string, currency: string, amount: string) =>
+        ledger.recordEvent({ accountId, eventType: "CREDIT", amount, currency, idempotencyKey: `${currency}-${amount}` });
+
+      await expect(credit(ngn.id, "NGN", "10.001")).rejects.toMatchObject({
+        code: "EXCESS_PRECISION",
+        details: { currency: "NGN", minorUnits: 2 },
+      });
+      await expect(credit(jpy.id, "JPY", "100.5")).rejects.toMatchObject({ code: "EXCESS_PRECISION" });
+      await credit(ngn.id, "NGN", "10.50");
+      await credit(jpy.id, "JPY", "100");
+      await credit(kwd.id, "KWD", "1.125");
+
+      await expect(
+        ledger.postTransaction({
+          idempotencyKey: "split-001",
+          legs: [
+            { accountId: ngn.id, eventType: "DEBIT", amount: "-0.005", currency: "NGN" },
+            { accountId: ngn.id, eventType: "CREDIT", amount: "0.005", currency: "NGN" },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "EXCESS_PRECISION" });
+    });
+
+    it("should reject partial reversals finer than the currency's minor unit", async () => {
+      const ngn = await ledger.openAccount({ accountType: "WALLET", currency: "NGN" });
+      const original = await ledger.recordEvent({
+        accountId: ngn.id,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "NGN",
+        idempotencyKey: "ngn-100",
+      });
+
+      await expect(
+        ledger.reverseEvent({ originalEventId: original.id, amount: "33.333", idempotencyKey: "refund-001" })
+      ).rejects.toMatchObject({ code: "EXCESS_PRECISION", details: { currency: "NGN", minorUnits: 2 } });
+      expect((await ledger.getAccountBalance(ngn.id)).balance).toBe("100.00000000");
+    });
+
+    it("should accept custom currencies", async () => {
+      const points = new Ledger(
+        { tenantId, customCurrencies: [{ code: "PTS", minorUnits: 0, name: "Loyalty Points" }], allowedCurrencies: ["PTS"] },
+        storage
+      );
+      const account = await points.openAccount({ accountType: "REWARDS", currency: "PTS" });
+      await expect(
+        points.recordEvent({ accountId: account.id, eventType: "CREDIT", amount: "0.5", currency: "PTS", idempotencyKey: "pts-1" })
+      ).rejects.toMatchObject({ code: "EXCESS_PRECISION" });
+    });
+  });
+
+  describe("transferFx", () => {
+    const rateTimestamp = new Date("2026-05-01T10:00:00Z");
+
+    beforeEach(async () => {
+      ledger = new Ledger({ tenantId, fxGainLossAccounts: { USD: "fx-usd" } }, storage);
+      await ledger.openAccount({ accountId: "ngn-wallet", accountType: "WALLET", currency: "NGN" });
+      await ledger.openAccount({ accountId: "usd-wallet", accountType: "WALLET", currency: "USD" });
+      await ledger.openAccount({ accountId: "fx-usd", accountType: "FX_GAIN_LOSS", currency: "USD" });
+      await ledger.recordEvent({
+        accountId: "ngn-wallet",
+        eventType: "CREDIT",
+        amount: "100000.00",
+        currency: "NGN",
+        idempotencyKey: "fund-ngn",
+      });
+    });
+
+    const transfer = (amount: string, rate: string, key = "fx-001") =>
+      ledger.transferFx({
+        idempotencyKey: key,
+        fromAccountId: "ngn-wallet",
+        toAccountId: "usd-wallet",
+        amount,
+        rate,
+        rateSource: "cbn-official",
+        rateTimestamp,
+      });
+
+    it("should debit one currency and credit the other at the given rate", async () => {
+      const result = await transfer("1550.00", "0.00064516");
+
+      expect(result).toMatchObject({
+        convertedAmount: "0.99999800",
+        creditedAmount: "1.00000000",
+        roundingRemainder: "0.00000000",
+        residue: "-0.00000200",
+      });
+      expect(result.events.map((e) => [e.accountId, e.eventType, e.amount])).toEqual([
+        ["ngn-wallet", "FX_DEBIT", "-1550.00000000"],
+        ["usd-wallet", "FX_CREDIT", "1.00000000"],
+      ]);
+      expect((await ledger.getAccountBalance("usd-wallet")).balance).toBe("1.00000000");
+      expect(await ledger.getFxResidues()).toEqual([
+        expect.objectContaining({ currency: "USD", residue: "-0.00000200" }),
+      ]);
+    });
+
+    it("should post rounding to the gain/loss account only in whole minor units", async () => {
+      const first = await transfer("1000.00", "0.000996", "fx-001");
+      const second = await transfer("1000.00", "0.000996", "fx-002");
+
+      expect(first).toMatchObject({ roundingRemainder: "0.00000000", residue: "-0.00400000" });
+      expect(second).toMatchObject({ roundingRemainder: "-0.01000000", residue: "0.00600000" });
+      expect(second.events.map((e) => [e.accountId, e.eventType, e.amount])).toEqual([
+        ["ngn-wallet", "FX_DEBIT", "-1000.00000000"],
+        ["usd-wallet", "FX_CREDIT", "1.00000000"],
+        ["fx-usd", "FX_ROUNDING", "-0.01000000"],
+      ]);
+      expect((await ledger.getAccountBalance("fx-usd")).balance).toBe("-0.01000000");
+      expect((await ledger.getFxResidues())[0].residue).toBe("0.00200000");
+      const statement = await ledger.getAccountStatement("fx-usd");
+      expect(() => exportStatementCamt053(statement)).not.toThrow();
+      expect((await ledger.verifyTenantIntegrity()).findings).toEqual([]);
+
+      await ledger.reverseTransaction({ transactionId: second.transactionId, idempotencyKey: "fx-002-reversal" });
+      expect((await ledger.getAccountBalance("fx-usd")).balance).toBe("0.00000000");
+      expect((await ledger.getFxResidues())[0].residue).toBe("-0.00400000");
+      expect((await ledger.verifyTenantIntegrity()).findings).toEqual([]);
+    });
+
+    it("should reject an fxRoundingScale finer than the destination currency", async () => {
+      ledger = new Ledger({ tenantId, fxGainLossAccounts: { USD: "fx-usd" }, fxRoundingScale: 4 }, storage);
+      await expect(transfer("1550.00", "0.00064516")).rejects.toMatchObject({
+        code: "INVALID_CONFIG",
+        details: { fxRoundingScale: 4, currency: "USD", minorUnits: 2 },
+      });
+    });
+
+    it("should record rate, source and timestamp on both legs", async () => {
+      const { events } = await transfer("1550.00", "0.00064516");
+
+      for (const event of events.slice(0, 2)) {
+        expect(JSON.parse(event.metadata!).fx).toEqual({
+          rate: "0.00064516",
+          rateSource: "cbn-official",
+          rateTimestamp: "2026-05-01T10:00:00.000Z",
+          fromCurrency: "NGN",
+          toCurrency: "USD",
+          convertedAmount: "0.99999800",
+          residue: "-0.00000200",
+        });
+      }
+    });
+
+    it("should skip the rounding leg when the conversion is exact", async () => {
+      const result = await transfer("1000.00", "0.0005");
+      expect(result.events).toHaveLength(2);
+      expect(result.roundingRemainder).toBe("0.00000000");
+    });
+
+    it("should be idempotent", async () => {
+      const first = await transfer("1550.00", "0.00064516");
+      const second = await transfer("1550.00", "0.00064516");
+      expect(second.transactionId).toBe(first.transactionId);
+      expect(second.creditedAmount).toBe("1.00000000");
+    });
+
+    it("should validate rates, currencies and the gain/loss account", async () => {
+      await expect(transfer("10.00", "0", "bad-rate")).rejects.toMatchObject({ code: "INVALID_FX_RATE" });
+      await expect(transfer("10.00", "1e-3", "bad-format")).rejects.toMatchObject({ code: "INVALID_FX_RATE" });
+      await expect(
+        ledger.transferFx({
+          idempotencyKey: "same",
+          fromAccountId: "usd-wallet",
+          toAccountId: "fx-usd",
+          amount: "1.00",
+          rate: "1",
+          rateSource: "n/a",
+          rateTimestamp,
+        })
+      ).rejects.toMatchObject({ code: "SAME_CURRENCY" });
+
+      const unconfigured = new Ledger({ tenantId }, storage);
+      await expect(
+        unconfigured.transferFx({
+          idempotencyKey: "no-gl",
+          fromAccountId: "ngn-wallet",
+          toAccountId: "usd-wallet",
+          amount: "1550.00",
+          rate: "0.00064516",
+          rateSource: "cbn-official",
+          rateTimestamp,
+        })
+      ).rejects.toMatchObject({ code: "FX_GAIN_LOSS_ACCOUNT_MISSING" });
+    });
+
+    it("should keep tenant integrity with FX transactions", async () => {
+      await transfer("1550.00", "0.00064516");
+      const report = await ledger.verifyTenantIntegrity();
+      expect(report.findings).toEqual([]);
+    });
+
+    it("should reverse both legs as a pair", async () => {
+      const { transactionId, events } = await transfer("1550.00", "0.00064516");
+
+      await expect(
+        ledger.reverseEvent({ originalEventId: events[0].id, idempotencyKey: "single-leg" })
+      ).rejects.toMatchObject({ code: "FX_LEG_REVERSAL" });
+
+      const reversal = await ledger.reverseTransaction({ transactionId, idempotencyKey: "fx-reversal" });
+      expect(reversal.events.map((e) => e.amount).sort()).toEqual(["-1.00000000", "1550.00000000"].sort());
+      expect((await ledger.getAccountBalance("ngn-wallet")).balance).toBe("100000.00000000");
+      expect((await ledger.getAccountBalance("usd-wallet")).balance).toBe("0.00000000");
+      expect((await ledger.getFxResidues())[0].residue).toBe("0.00000000");
+      expect((await ledger.verifyTenantIntegrity()).findings).toEqual([]);
+
+      await expect(
+        ledger.reverseTransaction({ transactionId, idempotencyKey: "fx-reversal-2" })
+      ).rejects.toMatchObject({ code: "ALREADY_REVERSED" });
+    });
+  });
+
+  describe("balance snapshots", () => {
+    let accountId: string;
+
+    const credit = (i: number) =>
+      ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "10.00",
+        currency: "USD",
+        idempotencyKey: `credit-${i}`,
+      });
+
+    beforeEach(async () => {
+      ledger = new Ledger({ tenantId, snapshotInterval: 3 }, storage);
+      const account = await ledger.openAccount({ accountType: "CLEARING", currency: "USD" });
+      accountId = account.id;
+    });
+
+    it("should snapshot automatically at the configured interval", async () => {
+      for (let i = 1; i <= 7; i++) await credit(i);
+
+      const snapshots = await storage.getBalanceSnapshots(tenantId, accountId);
+      expect(snapshots.map((s) => s.sequenceNumber)).toEqual([3, 6]);
+      expect(snapshots[1].balance).toBe("60.00000000");
+      expect(snapshots[1].eventCount).toBe(6);
+    });
+
+    it("should derive the balance from the latest snapshot plus later events", async () => {
+      for (let i = 1; i <= 7; i++) await credit(i);
+      const summarize = vi.spyOn(storage, "summarizeEvents");
+
+      const balance = await ledger.getAccountBalance(accountId);
+
+      expect(balance.balance).toBe("70.00000000");
+      expect(balance.eventCount).toBe(7);
+      expect(summarize).toHaveBeenCalledWith(tenantId, accountId, expect.objectContaining({ fromSequence: 7 }));
+    });
+
+    it("should use earlier snapshots for point-in-time balances", async () => {
+      for (let i = 1; i <= 7; i++) await credit(i);
+
+      const balance = await ledger.getAccountBalance(accountId, { asOfSequence: 5 });
+      expect(balance.balance).toBe("50.00000000");
+      expect(balance.eventCount).toBe(5);
+    });
+
+    it("should create a snapshot on demand", async () => {
+      for (let i = 1; i <= 2; i++) await credit(i);
+
+      const snapshot = await ledger.createBalanceSnapshot(accountId);
+      expect(snapshot.sequenceNumber).toBe(2);
+      expect(snapshot.balance).toBe("20.00000000");
+
+      const again = await ledger.createBalanceSnapshot(accountId);
+      expect(again.id).toBe(snapshot.id);
+    });
+
+    it("should reject snapshots of accounts without events", async () => {
+      await expect(ledger.createBalanceSnapshot(accountId)).rejects.toMatchObject({ code: "NO_EVENTS" });
+    });
+
+    it("should re-check snapshots during integrity verification", async () => {
+      for (let i = 1; i <= 3; i++) await credit(i);
+
+      const clean = await ledger.verifyLedgerIntegrity(accountId);
+      expect(clean.valid).toBe(true);
+      expect(clean.snapshotsVerified).toBe(1);
+
+      const [snapshot] = await storage.getBalanceSnapshots(tenantId, accountId);
+      snapshot.balance = "999.00000000";
+
+      const report = await ledger.verifyLedgerIntegrity(accountId);
+      expect(report.valid).toBe(false);
+      expect(report.errors.some((e) => e.startsWith("Snapshot mismatch at sequence 3"))).toBe(true);
+    });
+  });
+
   describe("getAccountStatement", () => {
     let accountId: string;
 
@@ -376,6 +1980,74 @@ describe("Ledger", () => {
       const filteredStatement = await ledger.getAccountStatement(accountId, { fromDate: futureDate });
       expect(filteredStatement.entries.length).toBe(0);
     });
+
+    describe("pagination", () => {
+      beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        for (let day = 1; day <= 5; day++) {
+          vi.setSystemTime(new Date(`2026-01-0${day}T12:00:00Z`));
+          await ledger.recordEvent({
+            accountId,
+            eventType: "CREDIT",
+            amount: `${day * 10}.00`,
+            currency: "USD",
+            idempotencyKey: `credit-${day}`,
+          });
+        }
+        vi.useRealTimers();
+      });
+
+      it("should carry the balance before the window into the opening balance", async () => {
+        const statement = await ledger.getAccountStatement(accountId, {
+          fromDate: new Date("2026-01-03T00:00:00Z"),
+          toDate: new Date("2026-01-04T23:59:59Z"),
+        });
+
+        expect(statement.entries.map((e) => e.amount)).toEqual(["30.00000000", "40.00000000"]);
+        expect(statement.openingBalance).toBe("30.00000000");
+        expect(statement.entries[0].runningBalance).toBe("60.00000000");
+        expect(statement.closingBalance).toBe("100.00000000");
+      });
+
+      it("should page through the window with a cursor", async () => {
+        const first = await ledger.getAccountStatement(accountId, { limit: 2 });
+        expect(first.entries.map((e) => e.amount)).toEqual(["10.00000000", "20.00000000"]);
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = await ledger.getAccountStatement(accountId, { limit: 2, cursor: first.nextCursor! });
+        expect(second.openingBalance).toBe(first.closingBalance);
+        expect(second.entries.map((e) => e.amount)).toEqual(["30.00000000", "40.00000000"]);
+
+        const last = await ledger.getAccountStatement(accountId, { limit: 2, cursor: second.nextCursor! });
+        expect(last.entries.map((e) => e.amount)).toEqual(["50.00000000"]);
+        expect(last.closingBalance).toBe("150.00000000");
+        expect(last.nextCursor).toBeNull();
+      });
+
+      it("should report the balance before an empty window", async () => {
+        const statement = await ledger.getAccountStatement(accountId, {
+          fromDate: new Date("2026-02-01T00:00:00Z"),
+        });
+        expect(statement.entries).toEqual([]);
+        expect(statement.openingBalance).toBe("150.00000000");
+        expect(statement.closingBalance).toBe("150.00000000");
+      });
+
+      it("should push the range down to storage", async () => {
+        const spy = vi.spyOn(storage, "getEventsByAccountId");
+        await ledger.getAccountStatement(accountId, { limit: 2 });
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      it("should reject invalid cursors and limits", async () => {
+        await expect(
+          ledger.getAccountStatement(accountId, { cursor: "not-a-cursor" })
+        ).rejects.toMatchObject({ code: "INVALID_CURSOR" });
+        await expect(
+          ledger.getAccountStatement(accountId, { limit: 0 })
+        ).rejects.toMatchObject({ code: "INVALID_LIMIT" });
+      });
+    });
   });
 
   describe("verifyLedgerIntegrity", () => {
@@ -425,6 +2097,489 @@ describe("Ledger", () => {
     });
   });
 
+  describe("unit of work", () => {
+    it("should roll back the event when the audit write fails", async () => {
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      vi.spyOn(storage, "createAuditEvent").mockRejectedValueOnce(new Error("audit unavailable"));
+
+      await expect(
+        ledger.recordEvent({
+          accountId: account.id,
+          eventType: "CREDIT",
+          amount: "100.00",
+          currency: "USD",
+          idempotencyKey: "credit-001",
+        })
+      ).rejects.toThrow("audit unavailable");
+
+      const balance = await ledger.getAccountBalance(account.id);
+      expect(balance.eventCount).toBe(0);
+    });
+
+    it("should roll back the account when the audit write fails", async () => {
+      vi.spyOn(storage, "createAuditEvent").mockRejectedValueOnce(new Error("audit unavailable"));
+
+      await expect(
+        ledger.openAccount({ accountId: "acc-1", accountType: "CASH", currency: "USD" })
+      ).rejects.toThrow("audit unavailable");
+
+      expect(await storage.getAccount(tenantId, "acc-1")).toBeUndefined();
+    });
+
+    it("should roll back only the nested unit of work that throws", async () => {
+      await storage.transaction(async (tx) => {
+        await tx.createAccount({
+          id: "outer",
+          tenantId,
+          accountType: "CASH",
+          currency: "USD",
+          metadata: null,
+          status: "active",
+          statusReason: null,
+          balancePolicy: null,
+          parentAccountId: null,
+          classification: null,
+        });
+        await expect(
+          tx.transaction(async (inner) => {
+            await inner.createAccount({
+              id: "inner",
+              tenantId,
+              accountType: "CASH",
+              currency: "USD",
+              metadata: null,
+              status: "active",
+              statusReason: null,
+              balancePolicy: null,
+              parentAccountId: null,
+              classification: null,
+            });
+            throw new Error("inner failure");
+          })
+        ).rejects.toThrow("inner failure");
+      });
+
+      expect(await storage.getAccount(tenantId, "outer")).toBeDefined();
+      expect(await storage.getAccount(tenantId, "inner")).toBeUndefined();
+    });
+  });
+
+  describe("verifyTenantIntegrity", () => {
+    let cashId: string;
+    let walletId: string;
+
+    const insertRaw = (overrides: Partial<LedgerEvent>) =>
+      storage.createEvents([{
+        id: `raw-${overrides.sequenceNumber}-${overrides.accountId}`,
+        tenantId,
+        accountId: cashId,
+        eventType: "RAW",
+        amount: "1.00000000",
+        currency: "USD",
+        idempotencyKey: `raw-${Math.random()}`,
+        reversesEventId: null,
+        transactionId: null,
+        description: null,
+        metadata: null,
+        sequenceNumber: 99,
+        hash: "raw",
+        previousHash: null,
+        context: null,
+        direction: null,
+        sourceType: null,
+        sourceRef: null,
+        effectiveAt: null,
+        createdAt: new Date(),
+        ...overrides,
+      }]);
+
+    const codes = async () => (await ledger.verifyTenantIntegrity()).findings.map((f) => f.code);
+
+    beforeEach(async () => {
+      cashId = (await ledger.openAccount({ accountType: "CASH", currency: "USD" })).id;
+      walletId = (await ledger.openAccount({ accountType: "WALLET", currency: "USD" })).id;
+      await ledger.recordEvent({
+        accountId: cashId,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      });
+      await ledger.postTransaction({
+        idempotencyKey: "txn-001",
+        legs: [
+          { accountId: cashId, eventType: "DEBIT", amount: "-40.00", currency: "USD" },
+          { accountId: walletId, eventType: "CREDIT", amount: "40.00", currency: "USD" },
+        ],
+      });
+    });
+
+    it("should report a clean tenant as valid", async () => {
+      const report = await ledger.verifyTenantIntegrity();
+
+      expect(report).toEqual({
+        valid: true,
+        tenantId,
+        accountCount: 2,
+        eventCount: 3,
+        transactionCount: 1,
+        findings: [],
+      });
+    });
+
+    it("should report sequence gaps", async () => {
+      await insertRaw({ sequenceNumber: 5 });
+      await insertRaw({ sequenceNumber: 6 });
+      expect((await codes()).filter((code) => code === "SEQUENCE_GAP")).toHaveLength(1);
+    });
+
+    it("should report a duplicate sequence once", async () => {
+      await insertRaw({ sequenceNumber: 3 });
+      const read = storage.getEventsByAccountId.bind(storage);
+      vi.spyOn(storage, "getEventsByAccountId").mockImplementation(async (tenant, accountId) => {
+        const events = await read(tenant, accountId);
+        return accountId === cashId ? [...events, { ...events[0], id: "copy-of-first" }] : events;
+      });
+
+      const findings = (await ledger.verifyTenantIntegrity()).findings.filter(
+        (f) => f.code === "DUPLICATE_SEQUENCE" || f.code === "SEQUENCE_GAP"
+      );
+      expect(findings).toEqual([expect.objectContaining({ code: "DUPLICATE_SEQUENCE", eventId: "copy-of-first" })]);
+    });
+
+    it("should report events whose currency differs from the account", async () => {
+      await insertRaw({ sequenceNumber: 3, currency: "EUR" });
+      expect(await codes()).toContain("CURRENCY_MISMATCH");
+    });
+
+    it("should report events whose direction contradicts their amount", async () => {
+      await insertRaw({ sequenceNumber: 3, direction: "debit" });
+      expect(await codes()).toContain("DIRECTION_MISMATCH");
+    });
+
+    it("should report reversals of missing or foreign events", async () => {
+      const [walletEvent] = await storage.getEventsByAccountId(tenantId, walletId);
+      await insertRaw({ sequenceNumber: 3, reversesEventId: "ghost" });
+      await insertRaw({ sequenceNumber: 4, reversesEventId: walletEvent.id, amount: "-40.00000000" });
+
+      const findings = await codes();
+      expect(findings).toContain("REVERSAL_TARGET_MISSING");
+      expect(findings).toContain("REVERSAL_ACCOUNT_MISMATCH");
+    });
+
+    it("should report reversals that do not offset the original amount", async () => {
+      const [credit] = await storage.getEventsByAccountId(tenantId, cashId);
+      await insertRaw({ sequenceNumber: 3, reversesEventId: credit.id, amount: "99.00000000" });
+      expect(await codes()).toContain("REVERSAL_AMOUNT_MISMATCH");
+    });
+
+    it("should report events reversed by more than their amount", async () => {
+      const [credit] = await storage.getEventsByAccountId(tenantId, cashId);
+      await ledger.reverseEvent({ originalEventId: credit.id, idempotencyKey: "reversal-001" });
+      await insertRaw({ sequenceNumber: 4, reversesEventId: credit.id, amount: "-100.00000000" });
+      expect(await codes()).toContain("OVER_REVERSED");
+    });
+
+    it("should report a storage aggregate that disagrees with the events", async () => {
+      vi.spyOn(storage, "summarizeEvents").mockResolvedValue({ total: "1.00", count: 2 });
+
+      const report = await ledger.verifyLedgerIntegrity(cashId);
+      expect(report.valid).toBe(false);
+      expect(report.findings.map((f) => f.code)).toContain("BALANCE_MISMATCH");
+    });
+
+    it("should attribute each finding to an account", async () => {
+      await insertRaw({ sequenceNumber: 5 });
+      const report = await ledger.verifyTenantIntegrity();
+      expect(report.valid).toBe(false);
+      expect(report.findings.every((f) => f.accountId === cashId)).toBe(true);
+    });
+  });
+
+  describe("hash chain", () => {
+    let accountId: string;
+
+    beforeEach(async () => {
+      ledger = new Ledger({ tenantId, chainSigningKey: "test-signing-key" }, storage);
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      accountId = account.id;
+      for (const [i, amount] of ["100.00", "-25.00", "40.00"].entries()) {
+        await ledger.recordEvent({
+          accountId,
+          eventType: "POSTING",
+          amount,
+          currency: "USD",
+          idempotencyKey: `posting-${i}`,
+        });
+      }
+    });
+
+    it("should link each event to the previous event on the account", async () => {
+      const events = await storage.getEventsByAccountId(tenantId, accountId);
+
+      expect(events[0].previousHash).toBeNull();
+      expect(events[1].previousHash).toBe(events[0].hash);
+      expect(events[2].previousHash).toBe(events[1].hash);
+      expect(events[2].hash).toBe(computeEventHash(events[2]));
+    });
+
+    it("should report the first link broken by a direct edit", async () => {
+      const events = await storage.getEventsByAccountId(tenantId, accountId);
+      events[1].amount = "-2.50000000";
+
+      const report = await ledger.verifyLedgerIntegrity(accountId);
+
+      expect(report.valid).toBe(false);
+      expect(report.firstBrokenLink).toEqual({
+        eventId: events[1].id,
+        sequenceNumber: 2,
+        reason: "HASH_MISMATCH",
+      });
+    });
+
+    it("should detect a rewritten hash through the next link", async () => {
+      const events = await storage.getEventsByAccountId(tenantId, accountId);
+      events[1].amount = "-2.50000000";
+      events[1].hash = computeEventHash(events[1]);
+
+      const report = await ledger.verifyLedgerIntegrity(accountId);
+
+      expect(report.firstBrokenLink).toMatchObject({
+        sequenceNumber: 3,
+        reason: "PREVIOUS_HASH_MISMATCH",
+      });
+    });
+
+    it("should detect an edited booking date", async () => {
+      const events = await storage.getEventsByAccountId(tenantId, accountId);
+      events[1].createdAt = new Date(events[1].createdAt.getTime() - 24 * 60 * 60 * 1000);
+
+      expect((await ledger.verifyLedgerIntegrity(accountId)).firstBrokenLink).toEqual({
+        eventId: events[1].id,
+        sequenceNumber: 2,
+        reason: "HASH_MISMATCH",
+      });
+    });
+
+    it("should backfill events stored before the hash chain", async () => {
+      const legacy = (account: string, sequenceNumber: number): LedgerEvent => ({
+        id: `legacy-${account}-${sequenceNumber}`,
+        tenantId,
+        accountId: account,
+        eventType: "CREDIT",
+        amount: "10.00000000",
+        currency: "USD",
+        idempotencyKey: `legacy-${account}-${sequenceNumber}`,
+        reversesEventId: null,
+        transactionId: null,
+        description: null,
+        metadata: null,
+        sequenceNumber,
+        hash: null,
+        previousHash: null,
+        context: null,
+        direction: null,
+        sourceType: null,
+        sourceRef: null,
+        effectiveAt: null,
+        createdAt: new Date("2025-12-01T00:00:00Z"),
+      });
+      const migrated = (await ledger.openAccount({ accountType: "CASH", currency: "USD" })).id;
+      const untouched = (await ledger.openAccount({ accountType: "CASH", currency: "USD" })).id;
+      await storage.createEvents([legacy(migrated, 1), legacy(migrated, 2), legacy(untouched, 1)]);
+      expect((await ledger.verifyLedgerIntegrity(migrated)).valid).toBe(false);
+
+      await ledger.recordEvent({
+        accountId: untouched,
+        eventType: "CREDIT",
+        amount: "5.00",
+        currency: "USD",
+        idempotencyKey: "after-migration",
+      });
+      expect((await ledger.verifyLedgerIntegrity(untouched)).valid).toBe(true);
+
+      expect(await ledger.backfillHashChain()).toBe(2);
+      expect(await ledger.backfillHashChain()).toBe(0);
+      expect((await ledger.verifyLedgerIntegrity(migrated)).valid).toBe(true);
+      expect(storage.getAuditEvents().filter((e) => e.action === "HASH_CHAIN_BACKFILLED").map((e) => e.entityId)).toEqual([
+        migrated,
+      ]);
+    });
+
+    it("should export and verify a signed chain-head digest", async () => {
+      const digest = await ledger.exportChainHeadDigest();
+
+      expect(digest.heads).toEqual([
+        { accountId, sequenceNumber: 3, hash: (await ledger.getChainHead(accountId))?.hash },
+      ]);
+      expect(digest.algorithm).toBe("HMAC-SHA256");
+      const history = vi.spyOn(storage, "getEventsByAccountId");
+      expect(await ledger.verifyChainHeadDigest(digest)).toEqual([]);
+      expect(history).not.toHaveBeenCalled();
+    });
+
+    it("should flag a digest whose anchored history was rewritten", async () => {
+      const digest = await ledger.exportChainHeadDigest();
+      const events = await storage.getEventsByAccountId(tenantId, accountId);
+      events[2].description = "edited";
+      events[2].hash = computeEventHash(events[2]);
+
+      const problems = await ledger.verifyChainHeadDigest(digest);
+      expect(problems).toHaveLength(1);
+      expect(problems[0]).toContain("no longer matches anchored head");
+    });
+
+    it("should flag a forged signature", async () => {
+      const digest = await ledger.exportChainHeadDigest();
+      const problems = await ledger.verifyChainHeadDigest({ ...digest, signature: "00".repeat(32) });
+      expect(problems).toContain("Digest signature is invalid");
+    });
+
+    it("should require a signing key to export digests", async () => {
+      const unsigned = new Ledger({ tenantId }, storage);
+      await expect(unsigned.exportChainHeadDigest()).rejects.toMatchObject({
+        code: "SIGNING_KEY_MISSING",
+      });
+    });
+  });
+
+  describe("operation context", () => {
+    const context = {
+      actorId: "user-42",
+      requestId: "req-001",
+      correlationId: "corr-001",
+      sourceModule: "payments",
+      clientIp: "203.0.113.7",
+    };
+
+    it("should persist the context on audit events", async () => {
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" }, context);
+      await ledger.recordEvent({
+        accountId: account.id,
+        eventType: "CREDIT",
+        amount: "10.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      }, context);
+
+      const audits = storage.getAuditEvents();
+      expect(audits).toHaveLength(2);
+      for (const audit of audits) {
+        expect(audit).toMatchObject(context);
+      }
+    });
+
+    it("should prefer an explicit actor on status changes", async () => {
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      await ledger.freezeAccount(account.id, { reason: "KYC review", actorId: "officer-7" }, context);
+
+      const [, frozen] = storage.getAuditEvents();
+      expect(frozen.actorId).toBe("officer-7");
+      expect(frozen.requestId).toBe("req-001");
+    });
+
+    it("should leave events without context by default", async () => {
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      const event = await ledger.recordEvent({
+        accountId: account.id,
+        eventType: "CREDIT",
+        amount: "10.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      }, context);
+
+      expect(event.context).toBeNull();
+    });
+
+    it("should stamp context onto events when configured, covered by the hash chain", async () => {
+      const tracing = new Ledger({ tenantId, recordEventContext: true }, storage);
+      const account = await tracing.openAccount({ accountType: "CASH", currency: "USD" });
+      const event = await tracing.recordEvent({
+        accountId: account.id,
+        eventType: "CREDIT",
+        amount: "10.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      }, context);
+
+      expect(JSON.parse(event.context!)).toEqual(context);
+      expect(computeEventHash({ ...event, context: null })).not.toBe(event.hash);
+      expect((await tracing.verifyLedgerIntegrity(account.id)).valid).toBe(true);
+    });
+  });
+
+  describe("getAuditTrail", () => {
+    let accountId: string;
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-03-01T09:00:00Z"));
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      accountId = account.id;
+
+      vi.setSystemTime(new Date("2026-03-02T09:00:00Z"));
+      await ledger.recordEvent({
+        accountId,
+        eventType: "CREDIT",
+        amount: "100.00",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      });
+
+      vi.setSystemTime(new Date("2026-03-03T09:00:00Z"));
+      await ledger.freezeAccount(accountId, { reason: "KYC review", actorId: "officer-7" });
+      vi.useRealTimers();
+    });
+
+    it("should return the tenant's audit events in order", async () => {
+      const trail = await ledger.getAuditTrail();
+      expect(trail.events.map((e) => e.action)).toEqual(["ACCOUNT_OPENED", "EVENT_RECORDED", "ACCOUNT_FROZEN"]);
+      expect(trail.nextCursor).toBeNull();
+    });
+
+    it("should filter by entity, action and actor", async () => {
+      const byEntity = await ledger.getAuditTrail({ entityType: "account", entityId: accountId });
+      expect(byEntity.events.map((e) => e.action)).toEqual(["ACCOUNT_OPENED", "ACCOUNT_FROZEN"]);
+
+      const byAction = await ledger.getAuditTrail({ action: "EVENT_RECORDED" });
+      expect(byAction.events).toHaveLength(1);
+
+      const byActor = await ledger.getAuditTrail({ actorId: "officer-7" });
+      expect(byActor.events.map((e) => e.action)).toEqual(["ACCOUNT_FROZEN"]);
+    });
+
+    it("should filter by time range", async () => {
+      const trail = await ledger.getAuditTrail({
+        fromDate: new Date("2026-03-02T00:00:00Z"),
+        toDate: new Date("2026-03-02T23:59:59Z"),
+      });
+      expect(trail.events.map((e) => e.action)).toEqual(["EVENT_RECORDED"]);
+    });
+
+    it("should page with a cursor", async () => {
+      const first = await ledger.getAuditTrail({ limit: 2 });
+      expect(first.events).toHaveLength(2);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await ledger.getAuditTrail({ limit: 2, cursor: first.nextCursor! });
+      expect(second.events.map((e) => e.action)).toEqual(["ACCOUNT_FROZEN"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should not expose other tenants' audit events", async () => {
+      const ledger2 = new Ledger({ tenantId: "tenant-002" }, storage);
+      await ledger2.openAccount({ accountType: "CASH", currency: "USD" });
+
+      expect((await ledger2.getAuditTrail()).events).toHaveLength(1);
+      expect((await ledger.getAuditTrail()).events.every((e) => e.tenantId === tenantId)).toBe(true);
+    });
+
+    it("should reject invalid limits and cursors", async () => {
+      await expect(ledger.getAuditTrail({ limit: 1001 })).rejects.toMatchObject({ code: "INVALID_LIMIT" });
+      await expect(ledger.getAuditTrail({ cursor: "bogus" })).rejects.toMatchObject({ code: "INVALID_CURSOR" });
+    });
+  });
+
   describe("tenant isolation", () => {
     it("should isolate accounts between tenants", async () => {
       const ledger2 = new Ledger({ tenantId: "tenant-002" }, storage);
@@ -1,13 +1,211 @@
 import { v4 as uuidv4 } from "uuid";
+import { LedgerError } from "./errors";
+import { Money, MONEY_SCALE } from "./money";
+import { CurrencyRegistry, type CurrencyDefinition } from "./currency";
+import { emitAuditEvent } from "./audit";
+import { computeEventHash, sha256, signDigest, verifyDigestSignature, SIGNATURE_ALGORITHM } from "./hash-chain";
+
+export { LedgerError } from "./errors";
+export { Money, MONEY_SCALE } from "./money";
+export { computeEventHash } from "./hash-chain";
+export { CurrencyRegistry, ISO_4217_CURRENCIES, type CurrencyDefinition } from "./currency";
+export {
+  OutboxDispatcher,
+  type OutboxHandler,
+  type OutboxDispatcherOptions,
+  type DispatchResult,
+} from "./outbox";
+export {
+  ProjectionEngine,
+  type ProjectionDefinition,
+  type ProjectionEngineOptions,
+  type ProjectionVerification,
+} from "./projection";
+export {
+  ReconciliationEngine,
+  parseExternalLinesCsv,
+  parseExternalLinesJson,
+  type ExternalLine,
+  type ExternalLineColumns,
+  type ReconcileParams,
+  type ReconciliationMatch,
+  type ReconciliationReport,
+  type ReconciliationEngineOptions,
+  type OverrideMatchParams,
+} from "./reconciliation";
+export {
+  exportStatementCsv,
+  parseStatementCsv,
+  exportStatementOfx,
+  exportStatementCamt053,
+  CSV_COLUMNS,
+  type StatementExportOptions,
+  type ParsedStatement,
+} from "./statement-export";
 
 export interface LedgerConfig {
   tenantId: string;
+  /**
+   * How many times a mutation is re-run after losing a sequence or
+   * idempotency race before failing with CONCURRENCY_CONFLICT. Defaults to 3.
+   */
+  maxConflictRetries?: number;
+  /**
+   * When set, a balance snapshot is taken automatically every time an
+   * account's sequence reaches a multiple of this interval.
+   */
+  snapshotInterval?: number;
+  /**
+   * HMAC key used to sign exported chain-head digests.
+   */
+  chainSigningKey?: string;
+  /**
+   * What a frozen account rejects: only postings that reduce its balance
+   * (the default), or every posting.
+   */
+  frozenAccountPolicy?: "block_debits" | "block_all";
+  /**
+   * Balance policies keyed by account type. A policy set on the account
+   * itself takes precedence.
+   */
+  balancePolicies?: Record<string, BalancePolicy>;
+  /**
+   * The tenant's chart of accounts: the classification of each account type.
+   * When set, only these account types can be opened.
+   */
+  chartOfAccounts?: Record<string, AccountClassification>;
+  /**
+   * FX gain/loss account per currency. FX transfers post the difference
+   * between the converted and the credited amount here.
+   */
+  fxGainLossAccounts?: Record<string, string>;
+  /**
+   * The tenant's event-type registry, merged over DEFAULT_EVENT_TYPES. When
+   * set, callers can only record event types it contains.
+   */
+  eventTypes?: Record<string, EventTypeDefinition>;
+  /**
+   * Decimal places FX transfers credit in the destination currency. Defaults
+   * to, and may not exceed, the destination currency's minor units.
+   */
+  fxRoundingScale?: number;
+  /**
+   * Currencies this tenant may open accounts and post in, e.g. `["NGN"]`.
+   * Defaults to every registered currency.
+   */
+  allowedCurrencies?: string[];
+  /** Non-ISO currencies to register alongside ISO 4217, or overrides of ISO minor units. */
+  customCurrencies?: CurrencyDefinition[];
+  /**
+   * How far an event's `effectiveAt` may precede or follow its booking time.
+   * Defaults to 7 days back and none forward.
+   */
+  valueDateWindow?: ValueDateWindow;
+  /**
+   * Also stamp the operation context onto each appended LedgerEvent, not
+   * just its audit event. Defaults to false.
+   */
+  recordEventContext?: boolean;
+}
+
+export interface ValueDateWindow {
+  maxBackdateMs?: number;
+  maxForwardMs?: number;
+}
+
+/**
+ * Which timestamp date filters and ordering use: `booking` is `createdAt`;
+ * `value` is `effectiveAt`, or `createdAt` for events recorded without one.
+ */
+export type DateBasis = "booking" | "value";
+
+/**
+ * Who and what triggered a mutation. Persisted on the audit event and, with
+ * `recordEventContext`, on the ledger events the mutation appends.
+ */
+export interface OperationContext {
+  actorId?: string;
+  requestId?: string;
+  correlationId?: string;
+  /** Calling module, e.g. "payments" or "pricing". */
+  sourceModule?: string;
+  clientIp?: string;
+}
+
+/**
+ * Limits enforced atomically with every append. Amounts are decimal strings.
+ */
+export interface BalancePolicy {
+  /** Lowest balance allowed before any overdraft. */
+  minimumBalance?: string;
+  /** How far past the floor (or, for debit-normal accounts, past zero) the balance may go. */
+  overdraftLimit?: string;
+  /**
+   * "credit" accounts (wallets, liabilities) must stay at or above zero;
+   * "debit" accounts (assets) must stay at or below zero.
+   */
+  normalSide?: "debit" | "credit";
+  /** Opts the account out of balance checks, e.g. system clearing accounts. */
+  exempt?: boolean;
+}
+
+export type AccountClassification = "asset" | "liability" | "equity" | "income" | "expense";
+
+export const ACCOUNT_CLASSIFICATIONS: readonly AccountClassification[] = [
+  "asset",
+  "liability",
+  "equity",
+  "income",
+  "expense",
+];
+
+export type EventDirection = "credit" | "debit";
+
+export const EVENT_DIRECTIONS: readonly EventDirection[] = ["credit", "debit"];
+
+/**
+ * What caused an event. `reversal` is reserved for the events reverseEvent and
+ * reverseTransaction append, which keep the `sourceRef` of what they reverse.
+ */
+export type EventSourceType = "pricing" | "incentive" | "payment" | "adjustment" | "reversal";
+
+export const EVENT_SOURCE_TYPES: readonly EventSourceType[] = [
+  "pricing",
+  "incentive",
+  "payment",
+  "adjustment",
+  "reversal",
+];
+
+/** Constraints on one entry of the event-type registry. */
+export interface EventTypeDefinition {
+  /** The only direction events of this type may take. */
+  direction?: EventDirection;
+  /** The source types events of this type may carry; any when omitted. */
+  sourceTypes?: EventSourceType[];
+  description?: string;
 }
 
+/** Event types every registry contains. Tenants may redefine but not remove them. */
+export const DEFAULT_EVENT_TYPES: Readonly<Record<string, EventTypeDefinition>> = {
+  CREDIT: { direction: "credit" },
+  DEBIT: { direction: "debit" },
+};
+
+/** Event types only the ledger itself appends. */
+const SYSTEM_EVENT_TYPES = new Set(["REVERSAL", "HOLD_CAPTURE", "FX_DEBIT", "FX_CREDIT", "FX_ROUNDING"]);
+
+const MAX_SOURCE_REF_LENGTH = 255;
+
 export interface OpenAccountParams {
   accountId?: string;
   accountType: string;
   currency: string;
+  /** Parent in the chart of accounts; must share the child's currency. */
+  parentAccountId?: string;
+  /** Required when no chart of accounts is configured and a classification is wanted. */
+  classification?: AccountClassification;
+  balancePolicy?: BalancePolicy;
   metadata?: Record<string, unknown>;
 }
 
@@ -15,25 +213,275 @@ export interface RecordEventParams {
   eventId?: string;
   accountId: string;
   eventType: string;
+  /**
+   * Unsigned when `direction` is given; otherwise signed, with debits
+   * negative.
+   */
   amount: string;
+  /** Whether the event credits or debits the account; sets the sign of `amount`. */
+  direction?: EventDirection;
+  sourceType?: EventSourceType;
+  /** Identifier of the source record, e.g. a payment or price-list id. */
+  sourceRef?: string;
   currency: string;
   idempotencyKey: string;
+  /**
+   * Value date, when the event counts from a different time than it is
+   * booked, e.g. a settlement that arrives a day late.
+   */
+  effectiveAt?: Date;
+  /**
+   * Compare-and-append guard: the sequence number the new event must receive.
+   * The append fails with SEQUENCE_MISMATCH if another event got there first.
+   */
+  expectedSequence?: number;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TransactionLeg {
+  accountId: string;
+  eventType: string;
+  /** Unsigned when `direction` is given; otherwise signed, with debits negative. */
+  amount: string;
+  direction?: EventDirection;
+  currency: string;
   description?: string;
   metadata?: Record<string, unknown>;
 }
 
+export interface PostTransactionParams {
+  transactionId?: string;
+  idempotencyKey: string;
+  description?: string;
+  /** Source of the transaction, stamped on every leg. */
+  sourceType?: EventSourceType;
+  sourceRef?: string;
+  /** Value date of every leg. */
+  effectiveAt?: Date;
+  legs: TransactionLeg[];
+}
+
+export interface LedgerTransaction {
+  transactionId: string;
+  events: LedgerEvent[];
+}
+
+export interface ReverseTransactionParams {
+  transactionId: string;
+  reversalTransactionId?: string;
+  idempotencyKey: string;
+  description?: string;
+}
+
+export interface FxTransferParams {
+  transactionId?: string;
+  idempotencyKey: string;
+  fromAccountId: string;
+  toAccountId: string;
+  /** Positive amount debited from `fromAccountId`, in its currency. */
+  amount: string;
+  /** Units of the destination currency per unit of the source currency. */
+  rate: string;
+  /** Where the rate came from, e.g. a provider name or quote id. */
+  rateSource: string;
+  /** When the rate was quoted. */
+  rateTimestamp: Date;
+  description?: string;
+  sourceType?: EventSourceType;
+  sourceRef?: string;
+}
+
+/**
+ * Stored under `metadata.fx` on every leg of an FX transfer and its reversal.
+ */
+export interface FxDetails {
+  rate: string;
+  rateSource: string;
+  rateTimestamp: string;
+  fromCurrency: string;
+  toCurrency: string;
+  /** Source amount times rate, before rounding to `fxRoundingScale`. */
+  convertedAmount: string;
+  /**
+   * Part of the rounding remainder too small to post in minor units, carried
+   * in the currency's FX residue. Absent on transfers posted before residues.
+   */
+  residue?: string;
+}
+
+export interface FxTransfer extends LedgerTransaction {
+  convertedAmount: string;
+  creditedAmount: string;
+  /** Rounding posted to the FX gain/loss account, in whole minor units. */
+  roundingRemainder: string;
+  /** Rounding carried in the FX residue until it adds up to a minor unit. */
+  residue: string;
+}
+
+/**
+ * Sub-minor-unit FX rounding owed to a currency's gain/loss account. Kept
+ * outside the event log because no account can hold it.
+ */
+export interface FxResidue {
+  tenantId: string;
+  currency: string;
+  residue: string;
+  updatedAt: Date;
+}
+
+export interface PlaceHoldParams {
+  holdId?: string;
+  accountId: string;
+  /** Positive amount to reserve. */
+  amount: string;
+  currency: string;
+  idempotencyKey: string;
+  expiresAt?: Date;
+  description?: string;
+}
+
+export interface CaptureHoldParams {
+  holdId: string;
+  /** Amount to settle; defaults to the full hold. Any remainder is released. */
+  amount?: string;
+  idempotencyKey: string;
+  description?: string;
+}
+
+export interface ReleaseHoldParams {
+  holdId: string;
+  reason?: string;
+}
+
+export type HoldStatus = "active" | "captured" | "released";
+
+/**
+ * A reservation against an account's available balance. Holds never move
+ * value themselves; capturing one records an ordinary debit event.
+ */
+export interface LedgerHold {
+  id: string;
+  tenantId: string;
+  accountId: string;
+  amount: string;
+  currency: string;
+  status: HoldStatus;
+  capturedAmount: string | null;
+  captureEventId: string | null;
+  idempotencyKey: string;
+  description: string | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ReverseEventParams {
   originalEventId: string;
   reversalEventId?: string;
+  /**
+   * Positive amount to reverse; defaults to whatever has not been reversed yet.
+   */
+  amount?: string;
   idempotencyKey: string;
   description?: string;
 }
 
+export interface ReversalStatus {
+  eventId: string;
+  /** Absolute amount of the original event. */
+  originalAmount: string;
+  /** Cumulative absolute amount reversed so far. */
+  reversedAmount: string;
+  remainingAmount: string;
+  status: "none" | "partial" | "full";
+  reversalEventIds: string[];
+}
+
 export interface AccountBalance {
   accountId: string;
   balance: string;
   currency: string;
+  status: AccountStatus;
   eventCount: number;
+  /** Ledger balance minus active holds; omitted for point-in-time queries. */
+  availableBalance?: string;
+  heldAmount?: string;
+  asOf?: Date;
+  asOfSequence?: number;
+}
+
+/**
+ * Balance of an account plus all of its descendants. Balances are signed
+ * sums of the subtree's own balances.
+ */
+export interface RollupBalance {
+  accountId: string;
+  currency: string;
+  classification: AccountClassification | null;
+  /** The account's own derived balance. */
+  balance: string;
+  /** Own balance plus every descendant's. */
+  rollupBalance: string;
+  /** Accounts in the subtree, including this one. */
+  accountCount: number;
+  children: RollupBalance[];
+}
+
+export interface RollupOptions {
+  /** Only count events dated at or before this instant. */
+  asOf?: Date;
+  /** Which date `asOf` applies to. Defaults to "booking". */
+  dateBasis?: DateBasis;
+}
+
+export interface BalanceOptions {
+  /** Only count events dated at or before this instant. */
+  asOf?: Date;
+  /**
+   * Which date `asOf` applies to. Defaults to "booking"; value-date balances
+   * are summed from the events alone, without snapshots.
+   */
+  dateBasis?: DateBasis;
+  /** Only count events with a sequence number at or below this one. */
+  asOfSequence?: number;
+}
+
+/**
+ * Inclusive bounds on the events of one account. Unset bounds are open.
+ */
+export interface EventRange {
+  fromSequence?: number;
+  toSequence?: number;
+  fromDate?: Date;
+  toDate?: Date;
+  /**
+   * Which date the bounds apply to. With "value", `getEventsInRange` orders
+   * by value date, then sequence.
+   */
+  dateBasis?: DateBasis;
+  /** Exclusive lower bound on the (value date, sequence) position. */
+  after?: EventPosition;
+  /** Exclusive upper bound on the (value date, sequence) position. */
+  before?: EventPosition;
+}
+
+/** A place in an account's value-date order. */
+export interface EventPosition {
+  date: Date;
+  sequenceNumber: number;
+}
+
+export interface EventSummary {
+  total: string;
+  count: number;
+}
+
+export interface TransactionLegSummary {
+  eventId: string;
+  accountId: string;
+  amount: string;
+  currency: string;
 }
 
 export interface StatementEntry {
@@ -42,15 +490,40 @@ export interface StatementEntry {
   amount: string;
   runningBalance: string;
   description: string | null;
+  transactionId: string | null;
+  siblingLegs?: TransactionLegSummary[];
   createdAt: Date;
+  /** Value date, for events recorded with one. */
+  effectiveAt?: Date;
+}
+
+export interface StatementOptions {
+  fromDate?: Date;
+  toDate?: Date;
+  /**
+   * Which date the window and entry order use. Defaults to "booking", which
+   * is sequence order.
+   */
+  dateBasis?: DateBasis;
+  includeSiblingLegs?: boolean;
+  /** Maximum entries per page; omit to return the whole window. */
+  limit?: number;
+  /** Opaque `nextCursor` from the previous page. */
+  cursor?: string;
 }
 
+/**
+ * One page of an account's events in sequence order. `openingBalance` is the
+ * balance immediately before the first entry, so it holds for any window.
+ */
 export interface AccountStatement {
   accountId: string;
   currency: string;
+  status: AccountStatus;
   entries: StatementEntry[];
   openingBalance: string;
   closingBalance: string;
+  nextCursor: string | null;
 }
 
 export interface IntegrityReport {
@@ -59,26 +532,90 @@ export interface IntegrityReport {
   expectedBalance: string;
   calculatedBalance: string;
   eventCount: number;
+  snapshotsVerified: number;
+  firstBrokenLink: BrokenChainLink | null;
+  transactions: TransactionIntegrity[];
+  findings: IntegrityFinding[];
   errors: string[];
 }
 
+export type IntegrityFindingCode =
+  | "SEQUENCE_GAP"
+  | "DUPLICATE_SEQUENCE"
+  | "TENANT_MISMATCH"
+  | "CURRENCY_MISMATCH"
+  | "DIRECTION_MISMATCH"
+  | "REVERSAL_TARGET_MISSING"
+  | "REVERSAL_ACCOUNT_MISMATCH"
+  | "REVERSAL_AMOUNT_MISMATCH"
+  | "OVER_REVERSED"
+  | "HASH_CHAIN_BROKEN"
+  | "SNAPSHOT_MISMATCH"
+  | "BALANCE_MISMATCH"
+  | "UNBALANCED_TRANSACTION";
+
+export interface IntegrityFinding {
+  code: IntegrityFindingCode;
+  accountId: string;
+  eventId?: string;
+  message: string;
+}
+
+export interface TenantIntegrityReport {
+  valid: boolean;
+  tenantId: string;
+  accountCount: number;
+  eventCount: number;
+  transactionCount: number;
+  findings: IntegrityFinding[];
+}
+
+interface AccountInspection {
+  findings: IntegrityFinding[];
+  firstBrokenLink: BrokenChainLink | null;
+  snapshotsVerified: number;
+  eventCount: number;
+  expectedBalance: Money;
+  calculatedBalance: Money;
+  transactionIds: string[];
+}
+
+export interface TransactionIntegrity {
+  transactionId: string;
+  balanced: boolean;
+  legs: TransactionLegSummary[];
+}
+
 export interface AuditEventParams {
   entityType: string;
   entityId: string;
   action: string;
   actorId?: string;
   payload?: Record<string, unknown>;
+  context?: OperationContext;
 }
 
+export type AccountStatus = "active" | "frozen" | "closed";
+
 export interface LedgerAccount {
   id: string;
   tenantId: string;
   accountType: string;
   currency: string;
   metadata: string | null;
+  status: AccountStatus;
+  statusReason: string | null;
+  balancePolicy: string | null;
+  parentAccountId: string | null;
+  classification: AccountClassification | null;
   createdAt: Date;
 }
 
+export interface AccountStatusChangeParams {
+  reason: string;
+  actorId?: string;
+}
+
 export interface LedgerEvent {
   id: string;
   tenantId: string;
@@ -88,12 +625,70 @@ export interface LedgerEvent {
   currency: string;
   idempotencyKey: string;
   reversesEventId: string | null;
+  transactionId: string | null;
   description: string | null;
   metadata: string | null;
   sequenceNumber: number;
+  /**
+   * SHA-256 over the event's content and `previousHash`. Null only on events
+   * stored before the hash chain until `backfillHashChain` fills it in.
+   */
+  hash: string | null;
+  /** Hash of the preceding event on the same account; null for the first. */
+  previousHash: string | null;
+  /** JSON-encoded OperationContext, when `recordEventContext` is enabled. */
+  context: string | null;
+  /** Always matches the sign of `amount`; null only on events stored before directions were. */
+  direction: EventDirection | null;
+  sourceType: EventSourceType | null;
+  sourceRef: string | null;
+  /** Value date when it differs from booking; the value date is otherwise `createdAt`. */
+  effectiveAt: Date | null;
   createdAt: Date;
 }
 
+/**
+ * Drafts may leave the source and value date unset; `direction` is derived
+ * from the amount on append.
+ */
+type EventDraft = Omit<
+  LedgerEvent,
+  | "createdAt"
+  | "sequenceNumber"
+  | "hash"
+  | "previousHash"
+  | "context"
+  | "direction"
+  | "sourceType"
+  | "sourceRef"
+  | "effectiveAt"
+> & Partial<Pick<LedgerEvent, "sourceType" | "sourceRef" | "effectiveAt">>;
+
+export interface ChainHead {
+  accountId: string;
+  sequenceNumber: number;
+  hash: string | null;
+}
+
+/**
+ * Signed commitment to every account's chain head, suitable for anchoring
+ * outside the database.
+ */
+export interface ChainHeadDigest {
+  tenantId: string;
+  generatedAt: string;
+  heads: ChainHead[];
+  digest: string;
+  algorithm: string;
+  signature: string;
+}
+
+export interface BrokenChainLink {
+  eventId: string;
+  sequenceNumber: number;
+  reason: "HASH_MISMATCH" | "PREVIOUS_HASH_MISMATCH";
+}
+
 export interface AuditEvent {
   id: string;
   tenantId: string;
@@ -101,40 +696,393 @@ export interface AuditEvent {
   entityId: string;
   action: string;
   actorId: string | null;
+  requestId: string | null;
+  correlationId: string | null;
+  sourceModule: string | null;
+  clientIp: string | null;
   payload: string | null;
   createdAt: Date;
 }
 
+export type OutboxStatus = "pending" | "delivered" | "dead_letter";
+
+/**
+ * One notification per appended LedgerEvent, written in the same transaction
+ * as the event and drained by `OutboxDispatcher`.
+ */
+export interface OutboxEntry {
+  id: string;
+  tenantId: string;
+  eventId: string;
+  accountId: string;
+  sequenceNumber: number;
+  eventType: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Persisted state of a projection. `state` is the reducer's JSON-encoded
+ * result and `checkpoint` maps each account to the last sequence applied.
+ */
+export interface ProjectionRecord {
+  tenantId: string;
+  name: string;
+  version: number;
+  state: string;
+  checkpoint: string;
+  updatedAt: Date;
+}
+
+export type PeriodStatus = "open" | "closed";
+
+/**
+ * A span of booking time, inclusive at both ends. Postings dated inside a
+ * closed period are rejected.
+ */
+export interface AccountingPeriod {
+  id: string;
+  tenantId: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: PeriodStatus;
+  closedAt: Date | null;
+  closedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OpenPeriodParams {
+  periodId?: string;
+  /** Unique per tenant, e.g. "2026-01". */
+  name: string;
+  startsAt: Date;
+  /** Last instant of the period, inclusive. */
+  endsAt: Date;
+}
+
+export interface ClosePeriodParams {
+  actorId?: string;
+}
+
+/** An account's balances as captured when its period was closed. */
+export interface PeriodBalance {
+  tenantId: string;
+  periodId: string;
+  accountId: string;
+  currency: string;
+  openingBalance: string;
+  closingBalance: string;
+  movement: string;
+  eventCount: number;
+  createdAt: Date;
+}
+
+export interface PeriodMovement {
+  accountId: string;
+  currency: string;
+  openingBalance: string;
+  closingBalance: string;
+  movement: string;
+  eventCount: number;
+  /** Movement in the preceding closed period; null when there is none. */
+  previousMovement: string | null;
+  /** `movement` minus `previousMovement`. */
+  movementChange: string | null;
+}
+
+export interface PeriodCloseReport {
+  period: AccountingPeriod;
+  /** The latest closed period ending before this one starts. */
+  previousPeriodId: string | null;
+  accounts: PeriodMovement[];
+}
+
+export type ReconciliationStatus = "matched" | "amount_mismatch" | "unmatched_external";
+
+export type ReconciliationMethod = "reference" | "amount_date" | "manual";
+
+/**
+ * The stored outcome for one external statement line. Manual decisions are
+ * kept as they are by later runs.
+ */
+export interface ReconciliationDecision {
+  tenantId: string;
+  accountId: string;
+  externalId: string;
+  eventId: string | null;
+  status: ReconciliationStatus;
+  method: ReconciliationMethod | null;
+  externalAmount: string;
+  externalDate: Date;
+  reference: string | null;
+  runId: string;
+  decidedBy: string | null;
+  reason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AuditTrailQuery {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actorId?: string;
+  /** Inclusive lower bound on `createdAt`. */
+  fromDate?: Date;
+  /** Inclusive upper bound on `createdAt`. */
+  toDate?: Date;
+  /** Page size, 1 to 1000. Defaults to 100. */
+  limit?: number;
+  /** Opaque `nextCursor` from the previous page. */
+  cursor?: string;
+}
+
+export interface AuditTrailPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+export interface EventSourceQuery {
+  sourceType?: EventSourceType;
+  sourceRef?: string;
+  accountId?: string;
+  /** Page size, 1 to 1000. Defaults to 100. */
+  limit?: number;
+  /** Opaque `nextCursor` from the previous page. */
+  cursor?: string;
+}
+
+export interface EventPage {
+  events: LedgerEvent[];
+  nextCursor: string | null;
+}
+
+/** Storage-level source filter, ordered and resumed like AuditEventFilter. */
+export interface EventSourceFilter {
+  sourceType?: EventSourceType;
+  sourceRef?: string;
+  accountId?: string;
+  after?: { createdAt: Date; id: string };
+}
+
+/**
+ * Storage-level audit filter. Results are ordered by `createdAt` then `id`,
+ * and `after` resumes strictly past that position.
+ */
+export interface AuditEventFilter {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actorId?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  after?: { createdAt: Date; id: string };
+}
+
+/**
+ * A checkpoint of an account's derived balance through `sequenceNumber`.
+ * Snapshots only accelerate derivation; they are re-checked against the
+ * events by `verifyLedgerIntegrity` and never replace them.
+ */
+export interface BalanceSnapshot {
+  id: string;
+  tenantId: string;
+  accountId: string;
+  sequenceNumber: number;
+  balance: string;
+  eventCount: number;
+  lastEventAt: Date;
+  createdAt: Date;
+}
+
+export interface SnapshotLookup {
+  maxSequence?: number;
+  maxEventAt?: Date;
+}
+
 export interface LedgerStorage {
   getAccount(tenantId: string, accountId: string): Promise<LedgerAccount | undefined>;
+  getAccounts(tenantId: string): Promise<LedgerAccount[]>;
+  getChildAccounts(tenantId: string, parentAccountId: string): Promise<LedgerAccount[]>;
   createAccount(account: Omit<LedgerAccount, "createdAt">): Promise<LedgerAccount>;
+  updateAccountParent(tenantId: string, accountId: string, parentAccountId: string | null): Promise<LedgerAccount>;
+  updateAccountStatus(
+    tenantId: string,
+    accountId: string,
+    status: AccountStatus,
+    statusReason: string | null
+  ): Promise<LedgerAccount>;
   getEventByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerEvent | undefined>;
   getEventById(tenantId: string, eventId: string): Promise<LedgerEvent | undefined>;
   getEventsByAccountId(tenantId: string, accountId: string): Promise<LedgerEvent[]>;
+  getEventsByTransactionId(tenantId: string, transactionId: string): Promise<LedgerEvent[]>;
+  getReversalsOf(tenantId: string, eventId: string): Promise<LedgerEvent[]>;
+  /** Events within the range in sequence order, at most `limit` of them. */
+  getEventsInRange(tenantId: string, accountId: string, range?: EventRange, limit?: number): Promise<LedgerEvent[]>;
+  /**
+   * Aggregates amounts in the database rather than loading the event rows.
+   */
+  summarizeEvents(tenantId: string, accountId: string, range?: EventRange): Promise<EventSummary>;
   getNextSequenceNumber(tenantId: string, accountId: string): Promise<number>;
-  createEvent(event: Omit<LedgerEvent, "createdAt">): Promise<LedgerEvent>;
+  getLatestEvent(tenantId: string, accountId: string): Promise<LedgerEvent | undefined>;
+  getEventBySequence(tenantId: string, accountId: string, sequenceNumber: number): Promise<LedgerEvent | undefined>;
+  /**
+   * Serializes appends to an account for the rest of the current unit of work.
+   */
+  lockAccount(tenantId: string, accountId: string): Promise<void>;
+  /** Stores events as given; `createdAt` is assigned by the ledger because the hash covers it. */
+  createEvent(event: LedgerEvent): Promise<LedgerEvent>;
+  createEvents(events: LedgerEvent[]): Promise<LedgerEvent[]>;
+  /** Fills in the chain on events stored before it; never overwrites a set hash. */
+  setEventHashes(tenantId: string, hashes: Pick<LedgerEvent, "id" | "hash" | "previousHash">[]): Promise<void>;
   createAuditEvent(event: Omit<AuditEvent, "createdAt">): Promise<AuditEvent>;
+  queryAuditEvents(tenantId: string, filter: AuditEventFilter, limit: number): Promise<AuditEvent[]>;
+  queryEventsBySource(tenantId: string, filter: EventSourceFilter, limit: number): Promise<LedgerEvent[]>;
+  createBalanceSnapshot(snapshot: Omit<BalanceSnapshot, "createdAt">): Promise<BalanceSnapshot>;
+  /**
+   * Returns the snapshot with the highest sequence number within the lookup bounds.
+   */
+  getLatestBalanceSnapshot(
+    tenantId: string,
+    accountId: string,
+    lookup?: SnapshotLookup
+  ): Promise<BalanceSnapshot | undefined>;
+  getBalanceSnapshots(tenantId: string, accountId: string): Promise<BalanceSnapshot[]>;
+  createHold(hold: Omit<LedgerHold, "createdAt" | "updatedAt">): Promise<LedgerHold>;
+  getHoldById(tenantId: string, holdId: string): Promise<LedgerHold | undefined>;
+  getHoldByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerHold | undefined>;
+  /**
+   * Holds with status "active" that have not expired at `at`.
+   */
+  getActiveHolds(tenantId: string, accountId: string, at: Date): Promise<LedgerHold[]>;
+  /** Settles an active hold; throws HOLD_NOT_ACTIVE if it has been settled meanwhile. */
+  updateHold(
+    tenantId: string,
+    holdId: string,
+    changes: Pick<LedgerHold, "status" | "capturedAmount" | "captureEventId">
+  ): Promise<LedgerHold>;
+  createOutboxEntries(entries: Omit<OutboxEntry, "createdAt">[]): Promise<OutboxEntry[]>;
+  /**
+   * The lowest-sequence pending entry of each account, if it is due by `now`.
+   * Later entries of an account wait until its head is delivered or dead-lettered.
+   */
+  getDueOutboxEntries(tenantId: string, now: Date, limit: number): Promise<OutboxEntry[]>;
+  getOutboxEntries(tenantId: string, status: OutboxStatus): Promise<OutboxEntry[]>;
+  updateOutboxEntry(
+    tenantId: string,
+    entryId: string,
+    changes: Pick<OutboxEntry, "status" | "attempts" | "nextAttemptAt" | "lastError" | "deliveredAt">
+  ): Promise<OutboxEntry>;
+  /** Adds `delta` to the currency's residue, locked until commit, and returns the new total. */
+  adjustFxResidue(tenantId: string, currency: string, delta: string): Promise<FxResidue>;
+  getFxResidues(tenantId: string): Promise<FxResidue[]>;
+  getProjection(tenantId: string, name: string): Promise<ProjectionRecord | undefined>;
+  /** Inserts or replaces the projection's stored state. */
+  saveProjection(record: Omit<ProjectionRecord, "updatedAt">): Promise<ProjectionRecord>;
+  createPeriod(period: Omit<AccountingPeriod, "createdAt" | "updatedAt">): Promise<AccountingPeriod>;
+  getPeriod(tenantId: string, periodId: string): Promise<AccountingPeriod | undefined>;
+  /** Ordered by `startsAt`. */
+  getPeriods(tenantId: string): Promise<AccountingPeriod[]>;
+  /**
+   * The period containing `at`, share-locked so that a concurrent close waits
+   * for the posting that read it.
+   */
+  getPeriodAt(tenantId: string, at: Date): Promise<AccountingPeriod | undefined>;
+  updatePeriod(
+    tenantId: string,
+    periodId: string,
+    changes: Pick<AccountingPeriod, "status" | "closedAt" | "closedBy">
+  ): Promise<AccountingPeriod>;
+  /** Inserts or replaces each account's balance row for its period. */
+  savePeriodBalances(balances: Omit<PeriodBalance, "createdAt">[]): Promise<PeriodBalance[]>;
+  getPeriodBalances(tenantId: string, periodId: string): Promise<PeriodBalance[]>;
+  /** Inserts or replaces the decision for each external line of the account. */
+  saveReconciliationDecisions(
+    decisions: Omit<ReconciliationDecision, "createdAt" | "updatedAt">[]
+  ): Promise<ReconciliationDecision[]>;
+  /** The account's decisions ordered by `externalId`. */
+  getReconciliationDecisions(tenantId: string, accountId: string): Promise<ReconciliationDecision[]>;
+  /**
+   * Runs `work` as a single unit of work. Every read and write made through
+   * the `tx` handle commits together, or is rolled back if `work` throws.
+   */
+  transaction<T>(work: (tx: LedgerStorage) => Promise<T>): Promise<T>;
 }
 
-export class LedgerError extends Error {
-  constructor(
-    message: string,
-    public readonly code: string,
-    public readonly details?: Record<string, unknown>
-  ) {
-    super(message);
-    this.name = "LedgerError";
-  }
-}
+const DEFAULT_MAX_CONFLICT_RETRIES = 3;
+const DEFAULT_MAX_BACKDATE_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_FORWARD_MS = 0;
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+const MAX_AUDIT_PAGE_SIZE = 1000;
+
+/**
+ * Storage errors that mean a concurrent writer won a race; the whole unit of
+ * work is safe to re-run because idempotency and sequence reads happen inside it.
+ */
+const RETRYABLE_CONFLICT_CODES = new Set(["SEQUENCE_CONFLICT", "IDEMPOTENCY_CONFLICT"]);
 
 export class Ledger {
   private config: LedgerConfig;
   private storage: LedgerStorage;
+  private currencies: CurrencyRegistry;
+  private eventTypes: Record<string, EventTypeDefinition> | null;
 
   constructor(config: LedgerConfig, storage: LedgerStorage) {
     if (!config.tenantId) {
       throw new LedgerError("Tenant ID is required", "INVALID_CONFIG");
     }
+    if (
+      config.fxRoundingScale !== undefined &&
+      (!Number.isInteger(config.fxRoundingScale) || config.fxRoundingScale < 0 || config.fxRoundingScale > MONEY_SCALE)
+    ) {
+      throw new LedgerError(
+        `fxRoundingScale must be an integer from 0 to ${MONEY_SCALE}`,
+        "INVALID_CONFIG",
+        { fxRoundingScale: config.fxRoundingScale }
+      );
+    }
+    for (const [accountType, classification] of Object.entries(config.chartOfAccounts ?? {})) {
+      if (!ACCOUNT_CLASSIFICATIONS.includes(classification)) {
+        throw new LedgerError(
+          `Chart of accounts classifies ${accountType} as unknown classification ${classification}`,
+          "INVALID_CONFIG",
+          { accountType, classification }
+        );
+      }
+    }
+    for (const [bound, ms] of Object.entries(config.valueDateWindow ?? {})) {
+      if (ms !== undefined && (!Number.isFinite(ms) || ms < 0)) {
+        throw new LedgerError(
+          `valueDateWindow.${bound} must be a non-negative number of milliseconds`,
+          "INVALID_CONFIG",
+          { [bound]: ms }
+        );
+      }
+    }
+    for (const [eventType, definition] of Object.entries(config.eventTypes ?? {})) {
+      if (
+        SYSTEM_EVENT_TYPES.has(eventType) ||
+        (definition.direction !== undefined && !EVENT_DIRECTIONS.includes(definition.direction)) ||
+        (definition.sourceTypes ?? []).some((t) => !EVENT_SOURCE_TYPES.includes(t))
+      ) {
+        throw new LedgerError(
+          `Invalid event type definition ${eventType}`,
+          "INVALID_CONFIG",
+          { eventType, definition }
+        );
+      }
+    }
+    this.eventTypes = config.eventTypes ? { ...DEFAULT_EVENT_TYPES, ...config.eventTypes } : null;
+    this.currencies = new CurrencyRegistry({
+      customCurrencies: config.customCurrencies,
+      allowedCurrencies: config.allowedCurrencies,
+    });
     this.config = config;
     this.storage = storage;
   }
@@ -143,184 +1091,1844 @@ export class Ledger {
     return this.config.tenantId;
   }
 
-  private async emitAuditEvent(params: AuditEventParams): Promise<void> {
-    await this.storage.createAuditEvent({
-      id: uuidv4(),
-      tenantId: this.config.tenantId,
-      entityType: params.entityType,
-      entityId: params.entityId,
-      action: params.action,
-      actorId: params.actorId || null,
-      payload: params.payload ? JSON.stringify(params.payload) : null,
-    });
+  private async emitAuditEvent(tx: LedgerStorage, params: AuditEventParams): Promise<void> {
+    await emitAuditEvent(tx, this.config.tenantId, params);
   }
 
-  async openAccount(params: OpenAccountParams): Promise<LedgerAccount> {
-    const accountId = params.accountId || uuidv4();
-    
-    const existing = await this.storage.getAccount(this.config.tenantId, accountId);
-    if (existing) {
-      throw new LedgerError(
-        `Account ${accountId} already exists`,
-        "ACCOUNT_EXISTS",
-        { accountId }
-      );
+  private async withConflictRetry<T>(work: () => Promise<T>): Promise<T> {
+    const maxRetries = this.config.maxConflictRetries ?? DEFAULT_MAX_CONFLICT_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await work();
+      } catch (error) {
+        if (!(error instanceof LedgerError) || !RETRYABLE_CONFLICT_CODES.has(error.code)) {
+          throw error;
+        }
+        if (attempt >= maxRetries) {
+          throw new LedgerError(
+            `Concurrent write conflict persisted after ${attempt + 1} attempts`,
+            "CONCURRENCY_CONFLICT",
+            { attempts: attempt + 1, cause: error.code }
+          );
+        }
+      }
     }
+  }
 
-    const account = await this.storage.createAccount({
-      id: accountId,
-      tenantId: this.config.tenantId,
-      accountType: params.accountType,
-      currency: params.currency,
-      metadata: params.metadata ? JSON.stringify(params.metadata) : null,
-    });
+  async openAccount(params: OpenAccountParams, context?: OperationContext): Promise<LedgerAccount> {
+    if (params.balancePolicy) {
+      this.validateBalancePolicy(params.balancePolicy);
+    }
+    const classification = this.resolveClassification(params.accountType, params.classification);
+    this.currencies.require(params.currency);
 
-    await this.emitAuditEvent({
-      entityType: "account",
-      entityId: accountId,
-      action: "ACCOUNT_OPENED",
-      payload: {
+    return this.storage.transaction(async (tx) => {
+      const accountId = params.accountId || uuidv4();
+
+      const existing = await tx.getAccount(this.config.tenantId, accountId);
+      if (existing) {
+        throw new LedgerError(
+          `Account ${accountId} already exists`,
+          "ACCOUNT_EXISTS",
+          { accountId }
+        );
+      }
+
+      if (params.parentAccountId) {
+        await this.assertValidParent(tx, accountId, params.parentAccountId, params.currency, classification);
+      }
+
+      const account = await tx.createAccount({
+        id: accountId,
+        tenantId: this.config.tenantId,
         accountType: params.accountType,
         currency: params.currency,
-      },
-    });
+        metadata: params.metadata ? JSON.stringify(params.metadata) : null,
+        status: "active",
+        statusReason: null,
+        balancePolicy: params.balancePolicy ? JSON.stringify(params.balancePolicy) : null,
+        parentAccountId: params.parentAccountId ?? null,
+        classification,
+      });
 
-    return account;
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "account",
+        entityId: accountId,
+        action: "ACCOUNT_OPENED",
+        payload: {
+          accountType: params.accountType,
+          currency: params.currency,
+          parentAccountId: account.parentAccountId,
+          classification,
+        },
+      });
+
+      return account;
+    });
   }
 
-  async recordEvent(params: RecordEventParams): Promise<LedgerEvent> {
-    const existingByKey = await this.storage.getEventByIdempotencyKey(
-      this.config.tenantId,
-      params.idempotencyKey
-    );
-    if (existingByKey) {
-      return existingByKey;
-    }
+  /**
+   * Moves an account under a new parent, or to the top level with null.
+   */
+  async setParentAccount(
+    accountId: string,
+    parentAccountId: string | null,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.storage.transaction(async (tx) => {
+      const account = await tx.getAccount(this.config.tenantId, accountId);
+      if (!account) {
+        throw new LedgerError(
+          `Account ${accountId} not found`,
+          "ACCOUNT_NOT_FOUND",
+          { accountId }
+        );
+      }
 
-    const account = await this.storage.getAccount(this.config.tenantId, params.accountId);
-    if (!account) {
+      if (parentAccountId) {
+        await this.assertValidParent(tx, accountId, parentAccountId, account.currency, account.classification);
+      }
+
+      const updated = await tx.updateAccountParent(this.config.tenantId, accountId, parentAccountId);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "account",
+        entityId: accountId,
+        action: "ACCOUNT_REPARENTED",
+        payload: {
+          previousParentAccountId: account.parentAccountId,
+          parentAccountId,
+        },
+      });
+
+      return updated;
+    });
+  }
+
+  async getRollupBalance(accountId: string, options?: RollupOptions): Promise<RollupBalance> {
+    const account = await this.storage.getAccount(this.config.tenantId, accountId);
+    if (!account) {
+      throw new LedgerError(
+        `Account ${accountId} not found`,
+        "ACCOUNT_NOT_FOUND",
+        { accountId }
+      );
+    }
+
+    return this.rollUp(account, options, new Set());
+  }
+
+  private async rollUp(
+    account: LedgerAccount,
+    options: RollupOptions | undefined,
+    visited: Set<string>
+  ): Promise<RollupBalance> {
+    if (visited.has(account.id)) {
+      throw new LedgerError(
+        `Account hierarchy contains a cycle at ${account.id}`,
+        "ACCOUNT_CYCLE",
+        { accountId: account.id }
+      );
+    }
+    visited.add(account.id);
+
+    const { balance } = await this.deriveBalance(this.storage, account.id, {
+      asOf: options?.asOf,
+      dateBasis: options?.dateBasis,
+    });
+    let rollup = balance;
+    let accountCount = 1;
+    const children: RollupBalance[] = [];
+
+    for (const child of await this.storage.getChildAccounts(this.config.tenantId, account.id)) {
+      if (child.currency !== account.currency) {
+        throw new LedgerError(
+          `Account ${child.id} is in ${child.currency} but its parent ${account.id} is in ${account.currency}`,
+          "CURRENCY_MISMATCH",
+          { accountId: child.id, parentAccountId: account.id }
+        );
+      }
+      const childRollup = await this.rollUp(child, options, visited);
+      rollup = rollup.add(Money.parseTotal(childRollup.rollupBalance));
+      accountCount += childRollup.accountCount;
+      children.push(childRollup);
+    }
+
+    return {
+      accountId: account.id,
+      currency: account.currency,
+      classification: account.classification,
+      balance: balance.toString(),
+      rollupBalance: rollup.toString(),
+      accountCount,
+      children,
+    };
+  }
+
+  private resolveClassification(
+    accountType: string,
+    requested: AccountClassification | undefined
+  ): AccountClassification | null {
+    const chart = this.config.chartOfAccounts;
+    if (requested !== undefined && !ACCOUNT_CLASSIFICATIONS.includes(requested)) {
+      throw new LedgerError(
+        `Unknown account classification ${requested}`,
+        "INVALID_CLASSIFICATION",
+        { classification: requested }
+      );
+    }
+    if (!chart) {
+      return requested ?? null;
+    }
+
+    const classification = chart[accountType];
+    if (!classification) {
+      throw new LedgerError(
+        `Account type ${accountType} is not in the chart of accounts`,
+        "UNKNOWN_ACCOUNT_TYPE",
+        { accountType }
+      );
+    }
+    if (requested !== undefined && requested !== classification) {
+      throw new LedgerError(
+        `Account type ${accountType} is classified as ${classification}, not ${requested}`,
+        "CLASSIFICATION_MISMATCH",
+        { accountType, classification, requested }
+      );
+    }
+    return classification;
+  }
+
+  /**
+   * Validates a caller-supplied posting against the event taxonomy and the
+   * event-type registry, and returns its signed amount.
+   */
+  private resolvePosting(posting: {
+    eventType: string;
+    amount: string;
+    direction?: EventDirection;
+    sourceType?: EventSourceType;
+    sourceRef?: string;
+  }): Money {
+    let amount = Money.parse(posting.amount);
+    if (posting.direction !== undefined) {
+      if (!EVENT_DIRECTIONS.includes(posting.direction)) {
+        throw new LedgerError(
+          `Unknown event direction ${posting.direction}`,
+          "INVALID_DIRECTION",
+          { direction: posting.direction }
+        );
+      }
+      if (amount.isNegative()) {
+        throw new LedgerError(
+          `Amount must be unsigned when a direction is given, got ${posting.amount}`,
+          "INVALID_AMOUNT",
+          { amount: posting.amount, direction: posting.direction }
+        );
+      }
+      amount = posting.direction === "debit" ? amount.negate() : amount;
+    }
+    this.assertValidSource(posting.sourceType, posting.sourceRef);
+
+    if (!this.eventTypes) {
+      return amount;
+    }
+    const definition = this.eventTypes[posting.eventType];
+    if (!definition) {
+      throw new LedgerError(
+        `Event type ${posting.eventType} is not registered`,
+        "UNKNOWN_EVENT_TYPE",
+        { eventType: posting.eventType }
+      );
+    }
+    const direction: EventDirection = amount.isNegative() ? "debit" : "credit";
+    if (definition.direction && definition.direction !== direction) {
+      throw new LedgerError(
+        `Event type ${posting.eventType} only allows ${definition.direction}s`,
+        "EVENT_DIRECTION_MISMATCH",
+        { eventType: posting.eventType, allowed: definition.direction, direction }
+      );
+    }
+    if (definition.sourceTypes && !definition.sourceTypes.includes(posting.sourceType as EventSourceType)) {
+      throw new LedgerError(
+        `Event type ${posting.eventType} does not allow source type ${posting.sourceType ?? "none"}`,
+        "SOURCE_TYPE_NOT_ALLOWED",
+        { eventType: posting.eventType, sourceType: posting.sourceType ?? null, allowed: definition.sourceTypes }
+      );
+    }
+    return amount;
+  }
+
+  private assertValueDateInWindow(effectiveAt: Date | undefined): void {
+    if (effectiveAt === undefined) {
+      return;
+    }
+    const now = Date.now();
+    const earliest = now - (this.config.valueDateWindow?.maxBackdateMs ?? DEFAULT_MAX_BACKDATE_MS);
+    const latest = now + (this.config.valueDateWindow?.maxForwardMs ?? DEFAULT_MAX_FORWARD_MS);
+    const time = effectiveAt instanceof Date ? effectiveAt.getTime() : NaN;
+    if (Number.isNaN(time) || time < earliest || time > latest) {
+      throw new LedgerError(
+        `Value date must fall between ${new Date(earliest).toISOString()} and ${new Date(latest).toISOString()}`,
+        "INVALID_VALUE_DATE",
+        { effectiveAt, earliest: new Date(earliest), latest: new Date(latest) }
+      );
+    }
+  }
+
+  private assertValidSource(sourceType: EventSourceType | undefined, sourceRef: string | undefined): void {
+    if (sourceType !== undefined && (!EVENT_SOURCE_TYPES.includes(sourceType) || sourceType === "reversal")) {
+      throw new LedgerError(
+        sourceType === "reversal"
+          ? "Reversals are recorded with reverseEvent or reverseTransaction"
+          : `Unknown source type ${sourceType}`,
+        "INVALID_SOURCE_TYPE",
+        { sourceType }
+      );
+    }
+    if (sourceRef !== undefined && (sourceRef.length === 0 || sourceRef.length > MAX_SOURCE_REF_LENGTH)) {
+      throw new LedgerError(
+        `Source reference must be 1 to ${MAX_SOURCE_REF_LENGTH} characters`,
+        "INVALID_SOURCE_REF",
+        { sourceRef }
+      );
+    }
+  }
+
+  /**
+   * Checks that `parentAccountId` can parent `accountId`: it exists, shares
+   * the currency and classification, and is not `accountId` or a descendant of it.
+   */
+  private async assertValidParent(
+    tx: LedgerStorage,
+    accountId: string,
+    parentAccountId: string,
+    currency: string,
+    classification: AccountClassification | null
+  ): Promise<void> {
+    const parent = await tx.getAccount(this.config.tenantId, parentAccountId);
+    if (!parent) {
+      throw new LedgerError(
+        `Parent account ${parentAccountId} not found`,
+        "PARENT_NOT_FOUND",
+        { parentAccountId }
+      );
+    }
+    if (parent.currency !== currency) {
+      throw new LedgerError(
+        `Parent account ${parentAccountId} is in ${parent.currency}, not ${currency}`,
+        "CURRENCY_MISMATCH",
+        { parentAccountId, expected: parent.currency, actual: currency }
+      );
+    }
+    if (parent.classification && classification && parent.classification !== classification) {
+      throw new LedgerError(
+        `Parent account ${parentAccountId} is ${parent.classification}, not ${classification}`,
+        "CLASSIFICATION_MISMATCH",
+        { parentAccountId, expected: parent.classification, actual: classification }
+      );
+    }
+
+    const visited = new Set<string>();
+    for (let ancestor: LedgerAccount | undefined = parent; ancestor; ) {
+      if (ancestor.id === accountId || visited.has(ancestor.id)) {
+        throw new LedgerError(
+          `Making ${parentAccountId} the parent of ${accountId} would create a cycle`,
+          "ACCOUNT_CYCLE",
+          { accountId, parentAccountId }
+        );
+      }
+      visited.add(ancestor.id);
+      ancestor = ancestor.parentAccountId
+        ? await tx.getAccount(this.config.tenantId, ancestor.parentAccountId)
+        : undefined;
+    }
+  }
+
+  async freezeAccount(
+    accountId: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.changeAccountStatus(accountId, ["active"], "frozen", "ACCOUNT_FROZEN", params, context);
+  }
+
+  async unfreezeAccount(
+    accountId: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.changeAccountStatus(accountId, ["frozen"], "active", "ACCOUNT_UNFROZEN", params, context);
+  }
+
+  /**
+   * Closes an active or frozen account. Only accounts with a zero balance and
+   * no active holds can close.
+   */
+  async closeAccount(
+    accountId: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.changeAccountStatus(accountId, ["active", "frozen"], "closed", "ACCOUNT_CLOSED", params, context);
+  }
+
+  async reopenAccount(
+    accountId: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.changeAccountStatus(accountId, ["closed"], "active", "ACCOUNT_REOPENED", params, context);
+  }
+
+  private async changeAccountStatus(
+    accountId: string,
+    from: AccountStatus[],
+    to: AccountStatus,
+    action: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<LedgerAccount> {
+    return this.storage.transaction(async (tx) => {
+      // Lock before reading the status, so concurrent transitions see each other.
+      await tx.lockAccount(this.config.tenantId, accountId);
+      const account = await tx.getAccount(this.config.tenantId, accountId);
+      if (!account) {
+        throw new LedgerError(
+          `Account ${accountId} not found`,
+          "ACCOUNT_NOT_FOUND",
+          { accountId }
+        );
+      }
+
+      if (!from.includes(account.status)) {
+        throw new LedgerError(
+          `Account ${accountId} cannot move from ${account.status} to ${to}`,
+          "INVALID_STATUS_TRANSITION",
+          { accountId, from: account.status, to }
+        );
+      }
+
+      if (to === "closed") {
+        const { balance } = await this.deriveBalance(tx, accountId);
+        if (!balance.isZero()) {
+          throw new LedgerError(
+            `Account ${accountId} has a non-zero balance of ${balance}`,
+            "NONZERO_BALANCE",
+            { accountId, balance: balance.toString() }
+          );
+        }
+        const holds = await tx.getActiveHolds(this.config.tenantId, accountId, new Date());
+        if (holds.length > 0) {
+          throw new LedgerError(
+            `Account ${accountId} has ${holds.length} active holds`,
+            "ACTIVE_HOLDS",
+            { accountId, holdIds: holds.map((h) => h.id) }
+          );
+        }
+      }
+
+      const updated = await tx.updateAccountStatus(this.config.tenantId, accountId, to, params.reason);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "account",
+        entityId: accountId,
+        action,
+        actorId: params.actorId,
+        payload: {
+          previousStatus: account.status,
+          status: to,
+          reason: params.reason,
+        },
+      });
+
+      return updated;
+    });
+  }
+
+  async openPeriod(params: OpenPeriodParams, context?: OperationContext): Promise<AccountingPeriod> {
+    if (
+      !params.name ||
+      Number.isNaN(params.startsAt?.getTime()) ||
+      Number.isNaN(params.endsAt?.getTime()) ||
+      params.startsAt >= params.endsAt
+    ) {
+      throw new LedgerError(
+        "A period needs a name and must start before it ends",
+        "INVALID_PERIOD",
+        { name: params.name, startsAt: params.startsAt, endsAt: params.endsAt }
+      );
+    }
+
+    return this.storage.transaction(async (tx) => {
+      const periodId = params.periodId || uuidv4();
+      const periods = await tx.getPeriods(this.config.tenantId);
+      const duplicate = periods.find((p) => p.id === periodId || p.name === params.name);
+      if (duplicate) {
+        throw new LedgerError(
+          `Period ${duplicate.name} already exists`,
+          "PERIOD_EXISTS",
+          { periodId: duplicate.id, name: duplicate.name }
+        );
+      }
+      const overlapping = periods.find((p) => p.startsAt <= params.endsAt && params.startsAt <= p.endsAt);
+      if (overlapping) {
+        throw new LedgerError(
+          `Period ${params.name} overlaps period ${overlapping.name}`,
+          "PERIOD_OVERLAP",
+          { periodId: overlapping.id, name: overlapping.name }
+        );
+      }
+
+      const period = await tx.createPeriod({
+        id: periodId,
+        tenantId: this.config.tenantId,
+        name: params.name,
+        startsAt: params.startsAt,
+        endsAt: params.endsAt,
+        status: "open",
+        closedAt: null,
+        closedBy: null,
+      });
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "period",
+        entityId: periodId,
+        action: "PERIOD_OPENED",
+        payload: { name: params.name, startsAt: params.startsAt, endsAt: params.endsAt },
+      });
+
+      return period;
+    });
+  }
+
+  /**
+   * Closes an ended period once every earlier period is closed, capturing each
+   * account's opening and closing balance by value date. From then on nothing
+   * can be dated into it; corrections are booked when they are made, in the
+   * open period.
+   */
+  async closePeriod(
+    periodId: string,
+    params: ClosePeriodParams = {},
+    context?: OperationContext
+  ): Promise<PeriodCloseReport> {
+    return this.storage.transaction(async (tx) => {
+      const period = await this.requirePeriod(tx, periodId);
+      if (period.status !== "open") {
+        throw new LedgerError(
+          `Period ${period.name} cannot move from ${period.status} to closed`,
+          "INVALID_STATUS_TRANSITION",
+          { periodId, from: period.status, to: "closed" }
+        );
+      }
+      if (period.endsAt > new Date()) {
+        throw new LedgerError(
+          `Period ${period.name} has not ended yet`,
+          "PERIOD_NOT_ENDED",
+          { periodId, endsAt: period.endsAt }
+        );
+      }
+      const earlierOpen = (await tx.getPeriods(this.config.tenantId)).find(
+        (p) => p.status === "open" && p.endsAt < period.startsAt
+      );
+      if (earlierOpen) {
+        throw new LedgerError(
+          `Period ${earlierOpen.name} must be closed before ${period.name}`,
+          "PREVIOUS_PERIOD_OPEN",
+          { periodId, openPeriodId: earlierOpen.id }
+        );
+      }
+
+      // Flip the status first: under Postgres this waits for postings that
+      // share-locked the period, so the balances below include them.
+      const closed = await tx.updatePeriod(this.config.tenantId, periodId, {
+        status: "closed",
+        closedAt: new Date(),
+        closedBy: params.actorId || context?.actorId || null,
+      });
+
+      const balances: Omit<PeriodBalance, "createdAt">[] = [];
+      for (const account of await tx.getAccounts(this.config.tenantId)) {
+        if (account.createdAt > period.endsAt) continue;
+        const closing = await this.deriveBalance(tx, account.id, { asOf: period.endsAt, dateBasis: "value" });
+        const movement = await tx.summarizeEvents(this.config.tenantId, account.id, {
+          fromDate: period.startsAt,
+          toDate: period.endsAt,
+          dateBasis: "value",
+        });
+        balances.push({
+          tenantId: this.config.tenantId,
+          periodId,
+          accountId: account.id,
+          currency: account.currency,
+          openingBalance: closing.balance.subtract(Money.parseTotal(movement.total)).toString(),
+          closingBalance: closing.balance.toString(),
+          movement: Money.parseTotal(movement.total).toString(),
+          eventCount: movement.count,
+        });
+      }
+      await tx.savePeriodBalances(balances);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "period",
+        entityId: periodId,
+        action: "PERIOD_CLOSED",
+        actorId: params.actorId,
+        payload: { name: period.name, accountCount: balances.length },
+      });
+
+      return this.buildPeriodCloseReport(tx, closed);
+    });
+  }
+
+  /** Reopens the most recently closed period for late adjustments. */
+  async reopenPeriod(
+    periodId: string,
+    params: AccountStatusChangeParams,
+    context?: OperationContext
+  ): Promise<AccountingPeriod> {
+    return this.storage.transaction(async (tx) => {
+      const period = await this.requirePeriod(tx, periodId);
+      if (period.status !== "closed") {
+        throw new LedgerError(
+          `Period ${period.name} cannot move from ${period.status} to open`,
+          "INVALID_STATUS_TRANSITION",
+          { periodId, from: period.status, to: "open" }
+        );
+      }
+      const laterClosed = (await tx.getPeriods(this.config.tenantId)).find(
+        (p) => p.status === "closed" && p.startsAt > period.endsAt
+      );
+      if (laterClosed) {
+        throw new LedgerError(
+          `Period ${laterClosed.name} must be reopened before ${period.name}`,
+          "LATER_PERIOD_CLOSED",
+          { periodId, closedPeriodId: laterClosed.id }
+        );
+      }
+
+      const reopened = await tx.updatePeriod(this.config.tenantId, periodId, {
+        status: "open",
+        closedAt: null,
+        closedBy: null,
+      });
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "period",
+        entityId: periodId,
+        action: "PERIOD_REOPENED",
+        actorId: params.actorId,
+        payload: { name: period.name, reason: params.reason },
+      });
+
+      return reopened;
+    });
+  }
+
+  async getPeriods(): Promise<AccountingPeriod[]> {
+    return this.storage.getPeriods(this.config.tenantId);
+  }
+
+  async getPeriodCloseReport(periodId: string): Promise<PeriodCloseReport> {
+    const period = await this.requirePeriod(this.storage, periodId);
+    if (period.status !== "closed") {
+      throw new LedgerError(`Period ${period.name} is not closed`, "PERIOD_NOT_CLOSED", { periodId });
+    }
+    return this.buildPeriodCloseReport(this.storage, period);
+  }
+
+  private async requirePeriod(storage: LedgerStorage, periodId: string): Promise<AccountingPeriod> {
+    const period = await storage.getPeriod(this.config.tenantId, periodId);
+    if (!period) {
+      throw new LedgerError(`Period ${periodId} not found`, "PERIOD_NOT_FOUND", { periodId });
+    }
+    return period;
+  }
+
+  /** Pairs each account's movement with its movement in the preceding closed period. */
+  private async buildPeriodCloseReport(storage: LedgerStorage, period: AccountingPeriod): Promise<PeriodCloseReport> {
+    const previous = (await storage.getPeriods(this.config.tenantId))
+      .filter((p) => p.status === "closed" && p.endsAt < period.startsAt)
+      .pop();
+    const previousMovements = new Map(
+      (previous ? await storage.getPeriodBalances(this.config.tenantId, previous.id) : []).map((b) => [
+        b.accountId,
+        Money.parseTotal(b.movement),
+      ])
+    );
+
+    const balances = await storage.getPeriodBalances(this.config.tenantId, period.id);
+    return {
+      period,
+      previousPeriodId: previous?.id ?? null,
+      accounts: balances.map((balance) => {
+        const movement = Money.parseTotal(balance.movement);
+        const previousMovement = previous ? previousMovements.get(balance.accountId) ?? Money.zero() : null;
+        return {
+          accountId: balance.accountId,
+          currency: balance.currency,
+          openingBalance: Money.parseTotal(balance.openingBalance).toString(),
+          closingBalance: Money.parseTotal(balance.closingBalance).toString(),
+          movement: movement.toString(),
+          eventCount: balance.eventCount,
+          previousMovement: previousMovement?.toString() ?? null,
+          movementChange: previousMovement ? movement.subtract(previousMovement).toString() : null,
+        };
+      }),
+    };
+  }
+
+  async recordEvent(params: RecordEventParams, context?: OperationContext): Promise<LedgerEvent> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const amount = this.resolvePosting(params);
+      this.currencies.assertPrecision(amount, params.currency);
+      this.assertValueDateInWindow(params.effectiveAt);
+
+      const existingByKey = await tx.getEventByIdempotencyKey(
+        this.config.tenantId,
+        params.idempotencyKey
+      );
+      if (existingByKey) {
+        return existingByKey;
+      }
+
+      const account = await tx.getAccount(this.config.tenantId, params.accountId);
+      if (!account) {
+        throw new LedgerError(
+          `Account ${params.accountId} not found`,
+          "ACCOUNT_NOT_FOUND",
+          { accountId: params.accountId }
+        );
+      }
+
+      if (account.currency !== params.currency) {
+        throw new LedgerError(
+          `Currency mismatch: account uses ${account.currency}, event uses ${params.currency}`,
+          "CURRENCY_MISMATCH",
+          { accountCurrency: account.currency, eventCurrency: params.currency }
+        );
+      }
+
+      await tx.lockAccount(this.config.tenantId, params.accountId);
+
+      const eventId = params.eventId || uuidv4();
+      const sequenceNumber = await tx.getNextSequenceNumber(
+        this.config.tenantId,
+        params.accountId
+      );
+
+      if (params.expectedSequence !== undefined && params.expectedSequence !== sequenceNumber) {
+        throw new LedgerError(
+          `Expected sequence ${params.expectedSequence} but next sequence is ${sequenceNumber}`,
+          "SEQUENCE_MISMATCH",
+          {
+            accountId: params.accountId,
+            expectedSequence: params.expectedSequence,
+            actualSequence: sequenceNumber,
+          }
+        );
+      }
+
+      const [event] = await this.appendEvents(tx, [{
+        id: eventId,
+        tenantId: this.config.tenantId,
+        accountId: params.accountId,
+        eventType: params.eventType,
+        amount: amount.toString(),
+        currency: params.currency,
+        idempotencyKey: params.idempotencyKey,
+        reversesEventId: null,
+        transactionId: null,
+        description: params.description || null,
+        metadata: params.metadata ? JSON.stringify(params.metadata) : null,
+        sourceType: params.sourceType,
+        sourceRef: params.sourceRef,
+        effectiveAt: params.effectiveAt,
+      }], context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "event",
+        entityId: eventId,
+        action: "EVENT_RECORDED",
+        payload: {
+          accountId: params.accountId,
+          eventType: params.eventType,
+          amount: event.amount,
+          currency: params.currency,
+        },
+      });
+
+      return event;
+    }));
+  }
+
+  async postTransaction(params: PostTransactionParams, context?: OperationContext): Promise<LedgerTransaction> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getEventByIdempotencyKey(
+        this.config.tenantId,
+        this.legIdempotencyKey(params.idempotencyKey, 0)
+      );
+      if (existingByKey?.transactionId) {
+        const events = await tx.getEventsByTransactionId(
+          this.config.tenantId,
+          existingByKey.transactionId
+        );
+        return { transactionId: existingByKey.transactionId, events };
+      }
+
+      if (params.legs.length < 2) {
+        throw new LedgerError(
+          "A transaction requires at least two legs",
+          "INVALID_TRANSACTION",
+          { legCount: params.legs.length }
+        );
+      }
+
+      this.assertValueDateInWindow(params.effectiveAt);
+
+      const netByCurrency = new Map<string, Money>();
+      const legAmounts: Money[] = [];
+      for (const leg of params.legs) {
+        const amount = this.resolvePosting({ ...leg, sourceType: params.sourceType, sourceRef: params.sourceRef });
+        if (amount.isZero()) {
+          throw new LedgerError(
+            `Invalid leg amount ${leg.amount} for account ${leg.accountId}`,
+            "INVALID_AMOUNT",
+            { accountId: leg.accountId, amount: leg.amount }
+          );
+        }
+        this.currencies.assertPrecision(amount, leg.currency);
+
+        const account = await tx.getAccount(this.config.tenantId, leg.accountId);
+        if (!account) {
+          throw new LedgerError(
+            `Account ${leg.accountId} not found`,
+            "ACCOUNT_NOT_FOUND",
+            { accountId: leg.accountId }
+          );
+        }
+
+        if (account.currency !== leg.currency) {
+          throw new LedgerError(
+            `Currency mismatch: account uses ${account.currency}, event uses ${leg.currency}`,
+            "CURRENCY_MISMATCH",
+            { accountCurrency: account.currency, eventCurrency: leg.currency }
+          );
+        }
+
+        netByCurrency.set(leg.currency, (netByCurrency.get(leg.currency) ?? Money.zero()).add(amount));
+        legAmounts.push(amount);
+      }
+
+      const imbalances: Record<string, string> = {};
+      for (const [currency, net] of netByCurrency) {
+        if (!net.isZero()) {
+          imbalances[currency] = net.toString();
+        }
+      }
+      if (Object.keys(imbalances).length > 0) {
+        throw new LedgerError(
+          "Transaction legs do not net to zero per currency",
+          "UNBALANCED_TRANSACTION",
+          { imbalances }
+        );
+      }
+
+      const accountIds = [...new Set(params.legs.map((leg) => leg.accountId))].sort();
+      for (const accountId of accountIds) {
+        await tx.lockAccount(this.config.tenantId, accountId);
+      }
+
+      const transactionId = params.transactionId || uuidv4();
+      const legEvents: EventDraft[] = params.legs.map((leg, index) => ({
+        id: uuidv4(),
+        tenantId: this.config.tenantId,
+        accountId: leg.accountId,
+        eventType: leg.eventType,
+        amount: legAmounts[index].toString(),
+        currency: leg.currency,
+        idempotencyKey: this.legIdempotencyKey(params.idempotencyKey, index),
+        reversesEventId: null,
+        transactionId,
+        description: leg.description || params.description || null,
+        metadata: leg.metadata ? JSON.stringify(leg.metadata) : null,
+        sourceType: params.sourceType,
+        sourceRef: params.sourceRef,
+        effectiveAt: params.effectiveAt,
+      }));
+
+      const events = await this.appendEvents(tx, legEvents, context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "transaction",
+        entityId: transactionId,
+        action: "TRANSACTION_POSTED",
+        payload: {
+          legs: events.map((e) => ({
+            eventId: e.id,
+            accountId: e.accountId,
+            amount: e.amount,
+            currency: e.currency,
+          })),
+        },
+      });
+
+      return { transactionId, events };
+    }));
+  }
+
+  /**
+   * Debits `amount` from one account and credits its conversion at `rate` to
+   * an account in another currency, as one transaction. The credit is rounded
+   * to `fxRoundingScale`; the remainder goes to the FX gain/loss account in
+   * whole minor units, carrying anything smaller in the currency's residue.
+   */
+  async transferFx(params: FxTransferParams, context?: OperationContext): Promise<FxTransfer> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getEventByIdempotencyKey(
+        this.config.tenantId,
+        this.legIdempotencyKey(params.idempotencyKey, 0)
+      );
+      if (existingByKey?.transactionId) {
+        const events = await tx.getEventsByTransactionId(this.config.tenantId, existingByKey.transactionId);
+        return this.describeFxTransfer(existingByKey.transactionId, events);
+      }
+
+      const amount = Money.parse(params.amount);
+      if (!amount.isPositive()) {
+        throw new LedgerError(
+          `FX transfer amount must be positive, got ${params.amount}`,
+          "INVALID_AMOUNT",
+          { amount: params.amount }
+        );
+      }
+      const rate = Money.isValid(params.rate) ? Money.parse(params.rate) : Money.zero();
+      if (!rate.isPositive()) {
+        throw new LedgerError(`Invalid FX rate ${params.rate}`, "INVALID_FX_RATE", { rate: params.rate });
+      }
+      if (!params.rateSource || Number.isNaN(params.rateTimestamp?.getTime())) {
+        throw new LedgerError(
+          "FX transfers require a rate source and rate timestamp",
+          "INVALID_FX_RATE",
+          { rateSource: params.rateSource }
+        );
+      }
+      this.assertValidSource(params.sourceType, params.sourceRef);
+
+      const from = await this.requireAccount(tx, params.fromAccountId);
+      const to = await this.requireAccount(tx, params.toAccountId);
+      this.currencies.assertPrecision(amount, from.currency);
+      if (from.currency === to.currency) {
+        throw new LedgerError(
+          `FX transfer between two ${from.currency} accounts`,
+          "SAME_CURRENCY",
+          { fromAccountId: from.id, toAccountId: to.id, currency: from.currency }
+        );
+      }
+
+      const { minorUnits } = this.currencies.require(to.currency);
+      const scale = this.config.fxRoundingScale ?? minorUnits;
+      if (scale > minorUnits) {
+        throw new LedgerError(
+          `fxRoundingScale ${scale} exceeds the ${minorUnits} decimal places ${to.currency} allows`,
+          "INVALID_CONFIG",
+          { fxRoundingScale: scale, currency: to.currency, minorUnits }
+        );
+      }
+      const converted = amount.multiply(rate);
+      const credited = converted.round(scale);
+      const remainder = converted.subtract(credited);
+      if (!credited.isPositive()) {
+        throw new LedgerError(
+          `${amount} ${from.currency} converts to nothing at rate ${params.rate}`,
+          "INVALID_AMOUNT",
+          { amount: params.amount, rate: params.rate }
+        );
+      }
+
+      let gainLossAccountId: string | undefined;
+      if (!remainder.isZero()) {
+        gainLossAccountId = this.config.fxGainLossAccounts?.[to.currency];
+        if (!gainLossAccountId) {
+          throw new LedgerError(
+            `No FX gain/loss account is configured for ${to.currency}`,
+            "FX_GAIN_LOSS_ACCOUNT_MISSING",
+            { currency: to.currency }
+          );
+        }
+        const gainLoss = await this.requireAccount(tx, gainLossAccountId);
+        if (gainLoss.currency !== to.currency) {
+          throw new LedgerError(
+            `FX gain/loss account ${gainLossAccountId} is in ${gainLoss.currency}, not ${to.currency}`,
+            "CURRENCY_MISMATCH",
+            { accountId: gainLossAccountId, accountCurrency: gainLoss.currency, eventCurrency: to.currency }
+          );
+        }
+      }
+
+      for (const accountId of [...new Set([from.id, to.id, ...(gainLossAccountId ? [gainLossAccountId] : [])])].sort()) {
+        await tx.lockAccount(this.config.tenantId, accountId);
+      }
+
+      // The gain/loss account only takes whole minor units; the rest waits in the residue.
+      let rounding = Money.zero();
+      if (!remainder.isZero()) {
+        const carried = await tx.adjustFxResidue(this.config.tenantId, to.currency, remainder.toString());
+        rounding = Money.parseTotal(carried.residue).round(minorUnits);
+        if (!rounding.isZero()) {
+          await tx.adjustFxResidue(this.config.tenantId, to.currency, rounding.negate().toString());
+        }
+      }
+      const residue = remainder.subtract(rounding);
+
+      const fx: FxDetails = {
+        rate: rate.toString(),
+        rateSource: params.rateSource,
+        rateTimestamp: params.rateTimestamp.toISOString(),
+        fromCurrency: from.currency,
+        toCurrency: to.currency,
+        convertedAmount: converted.toString(),
+        residue: residue.toString(),
+      };
+      const legs: Array<{ accountId: string; eventType: string; amount: Money; currency: string }> = [
+        { accountId: from.id, eventType: "FX_DEBIT", amount: amount.negate(), currency: from.currency },
+        { accountId: to.id, eventType: "FX_CREDIT", amount: credited, currency: to.currency },
+      ];
+      if (gainLossAccountId && !rounding.isZero()) {
+        legs.push({ accountId: gainLossAccountId, eventType: "FX_ROUNDING", amount: rounding, currency: to.currency });
+      }
+
+      const transactionId = params.transactionId || uuidv4();
+      const events = await this.appendEvents(tx, legs.map((leg, index) => ({
+        id: uuidv4(),
+        tenantId: this.config.tenantId,
+        accountId: leg.accountId,
+        eventType: leg.eventType,
+        amount: leg.amount.toString(),
+        currency: leg.currency,
+        idempotencyKey: this.legIdempotencyKey(params.idempotencyKey, index),
+        reversesEventId: null,
+        transactionId,
+        description: params.description || null,
+        metadata: JSON.stringify({ fx }),
+        sourceType: params.sourceType,
+        sourceRef: params.sourceRef,
+      })), context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "transaction",
+        entityId: transactionId,
+        action: "FX_TRANSFER_POSTED",
+        payload: {
+          ...fx,
+          amount: amount.toString(),
+          creditedAmount: credited.toString(),
+          roundingRemainder: rounding.toString(),
+        },
+      });
+
+      return this.describeFxTransfer(transactionId, events);
+    }));
+  }
+
+  /** Rounding each currency still owes its FX gain/loss account, below one minor unit. */
+  async getFxResidues(): Promise<FxResidue[]> {
+    return this.storage.getFxResidues(this.config.tenantId);
+  }
+
+  /**
+   * Fully reverses every leg of a transaction as one new transaction. Legs
+   * must not have been reversed individually.
+   */
+  async reverseTransaction(params: ReverseTransactionParams, context?: OperationContext): Promise<LedgerTransaction> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getEventByIdempotencyKey(
+        this.config.tenantId,
+        this.legIdempotencyKey(params.idempotencyKey, 0)
+      );
+      if (existingByKey?.transactionId) {
+        const events = await tx.getEventsByTransactionId(this.config.tenantId, existingByKey.transactionId);
+        return { transactionId: existingByKey.transactionId, events };
+      }
+
+      const legs = (await tx.getEventsByTransactionId(this.config.tenantId, params.transactionId))
+        .sort((a, b) => a.accountId.localeCompare(b.accountId) || a.sequenceNumber - b.sequenceNumber);
+      if (legs.length === 0) {
+        throw new LedgerError(
+          `Transaction ${params.transactionId} not found`,
+          "TRANSACTION_NOT_FOUND",
+          { transactionId: params.transactionId }
+        );
+      }
+
+      for (const accountId of [...new Set(legs.map((leg) => leg.accountId))].sort()) {
+        await tx.lockAccount(this.config.tenantId, accountId);
+      }
+
+      const reversedLegs: string[] = [];
+      for (const leg of legs) {
+        if ((await tx.getReversalsOf(this.config.tenantId, leg.id)).length > 0) {
+          reversedLegs.push(leg.id);
+        }
+      }
+      if (reversedLegs.length > 0) {
+        throw new LedgerError(
+          `Transaction ${params.transactionId} has legs that are already reversed`,
+          "ALREADY_REVERSED",
+          { transactionId: params.transactionId, eventIds: reversedLegs }
+        );
+      }
+
+      const fx = parseFxDetails(legs[0]);
+      const residue = Money.parseTotal(fx?.residue ?? "0");
+      if (fx && !residue.isZero()) {
+        // Undo what the transaction carried: a transfer debits its source currency, a reversal credits it.
+        const debit = legs.find((leg) => leg.currency === fx.fromCurrency && Money.parse(leg.amount).isNegative());
+        const delta = debit ? residue.negate() : residue;
+        await tx.adjustFxResidue(this.config.tenantId, fx.toCurrency, delta.toString());
+      }
+
+      const transactionId = params.reversalTransactionId || uuidv4();
+      const events = await this.appendEvents(tx, legs.map((leg, index) => ({
+        id: uuidv4(),
+        tenantId: this.config.tenantId,
+        accountId: leg.accountId,
+        eventType: "REVERSAL",
+        amount: Money.parse(leg.amount).negate().toString(),
+        currency: leg.currency,
+        idempotencyKey: this.legIdempotencyKey(params.idempotencyKey, index),
+        reversesEventId: leg.id,
+        transactionId,
+        description: params.description || `Reversal of transaction ${params.transactionId}`,
+        metadata: leg.metadata,
+        sourceType: "reversal",
+        sourceRef: leg.sourceRef,
+      })), context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "transaction",
+        entityId: transactionId,
+        action: "TRANSACTION_REVERSED",
+        payload: {
+          originalTransactionId: params.transactionId,
+          legs: events.map((e) => ({ eventId: e.id, reversesEventId: e.reversesEventId, amount: e.amount })),
+        },
+      });
+
+      return { transactionId, events };
+    }));
+  }
+
+  private describeFxTransfer(transactionId: string, events: LedgerEvent[]): FxTransfer {
+    const credit = events.find((e) => e.eventType === "FX_CREDIT");
+    const rounding = events.find((e) => e.eventType === "FX_ROUNDING");
+    const fx = credit && parseFxDetails(credit);
+    return {
+      transactionId,
+      events,
+      convertedAmount: fx ? fx.convertedAmount : Money.zero().toString(),
+      creditedAmount: credit ? Money.parse(credit.amount).toString() : Money.zero().toString(),
+      roundingRemainder: rounding ? Money.parse(rounding.amount).toString() : Money.zero().toString(),
+      residue: Money.parseTotal(fx?.residue ?? "0").toString(),
+    };
+  }
+
+  private async requireAccount(storage: LedgerStorage, accountId: string): Promise<LedgerAccount> {
+    const account = await storage.getAccount(this.config.tenantId, accountId);
+    if (!account) {
+      throw new LedgerError(
+        `Account ${accountId} not found`,
+        "ACCOUNT_NOT_FOUND",
+        { accountId }
+      );
+    }
+    return account;
+  }
+
+  async getTransaction(transactionId: string): Promise<LedgerTransaction> {
+    const events = await this.storage.getEventsByTransactionId(
+      this.config.tenantId,
+      transactionId
+    );
+    if (events.length === 0) {
+      throw new LedgerError(
+        `Transaction ${transactionId} not found`,
+        "TRANSACTION_NOT_FOUND",
+        { transactionId }
+      );
+    }
+
+    return { transactionId, events };
+  }
+
+  private legIdempotencyKey(idempotencyKey: string, legIndex: number): string {
+    return `${idempotencyKey}:${legIndex}`;
+  }
+
+  async placeHold(params: PlaceHoldParams, context?: OperationContext): Promise<LedgerHold> {
+    const amount = Money.parse(params.amount);
+    if (!amount.isPositive()) {
+      throw new LedgerError(
+        `Hold amount must be positive, got ${params.amount}`,
+        "INVALID_AMOUNT",
+        { amount: params.amount }
+      );
+    }
+    this.currencies.assertPrecision(amount, params.currency);
+
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getHoldByIdempotencyKey(this.config.tenantId, params.idempotencyKey);
+      if (existingByKey) {
+        return existingByKey;
+      }
+
+      await tx.lockAccount(this.config.tenantId, params.accountId);
+      const account = await this.assertPostingAllowed(tx, params.accountId, [amount.negate()]);
+
+      if (account.currency !== params.currency) {
+        throw new LedgerError(
+          `Currency mismatch: account uses ${account.currency}, hold uses ${params.currency}`,
+          "CURRENCY_MISMATCH",
+          { accountCurrency: account.currency, eventCurrency: params.currency }
+        );
+      }
+
+      const hold = await tx.createHold({
+        id: params.holdId || uuidv4(),
+        tenantId: this.config.tenantId,
+        accountId: params.accountId,
+        amount: amount.toString(),
+        currency: params.currency,
+        status: "active",
+        capturedAmount: null,
+        captureEventId: null,
+        idempotencyKey: params.idempotencyKey,
+        description: params.description || null,
+        expiresAt: params.expiresAt || null,
+      });
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "hold",
+        entityId: hold.id,
+        action: "HOLD_PLACED",
+        payload: {
+          accountId: hold.accountId,
+          amount: hold.amount,
+          currency: hold.currency,
+          expiresAt: hold.expiresAt?.toISOString() ?? null,
+        },
+      });
+
+      return hold;
+    }));
+  }
+
+  /**
+   * Settles a hold as a normal debit event. Capturing less than the held
+   * amount releases the remainder.
+   */
+  async captureHold(params: CaptureHoldParams, context?: OperationContext): Promise<LedgerEvent> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getEventByIdempotencyKey(this.config.tenantId, params.idempotencyKey);
+      if (existingByKey) {
+        return existingByKey;
+      }
+
+      const hold = await this.getActiveHold(tx, params.holdId);
+      const holdAmount = Money.parse(hold.amount);
+      const amount = params.amount !== undefined ? Money.parse(params.amount) : holdAmount;
+      if (!amount.isPositive() || amount.compare(holdAmount) > 0) {
+        throw new LedgerError(
+          `Capture amount must be positive and at most ${holdAmount}`,
+          "INVALID_CAPTURE_AMOUNT",
+          { holdId: hold.id, holdAmount: holdAmount.toString(), amount: amount.toString() }
+        );
+      }
+
+      this.currencies.assertPrecision(amount, hold.currency);
+
+      const eventId = uuidv4();
+      // Settle the hold first so its reservation no longer counts against
+      // the available balance that the capture's own debit is checked against.
+      await tx.updateHold(this.config.tenantId, hold.id, {
+        status: "captured",
+        capturedAmount: amount.toString(),
+        captureEventId: eventId,
+      });
+
+      const [event] = await this.appendEvents(tx, [{
+        id: eventId,
+        tenantId: this.config.tenantId,
+        accountId: hold.accountId,
+        eventType: "HOLD_CAPTURE",
+        amount: amount.negate().toString(),
+        currency: hold.currency,
+        idempotencyKey: params.idempotencyKey,
+        reversesEventId: null,
+        transactionId: null,
+        description: params.description || hold.description,
+        metadata: JSON.stringify({ holdId: hold.id }),
+      }], context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "hold",
+        entityId: hold.id,
+        action: "HOLD_CAPTURED",
+        payload: {
+          eventId,
+          capturedAmount: amount.toString(),
+          releasedAmount: holdAmount.subtract(amount).toString(),
+        },
+      });
+
+      return event;
+    }));
+  }
+
+  async releaseHold(params: ReleaseHoldParams, context?: OperationContext): Promise<LedgerHold> {
+    return this.storage.transaction(async (tx) => {
+      const hold = await tx.getHoldById(this.config.tenantId, params.holdId);
+      if (!hold) {
+        throw new LedgerError(`Hold ${params.holdId} not found`, "HOLD_NOT_FOUND", { holdId: params.holdId });
+      }
+      if (hold.status === "released") {
+        return hold;
+      }
+      if (hold.status !== "active") {
+        throw new LedgerError(
+          `Hold ${hold.id} is already ${hold.status}`,
+          "HOLD_NOT_ACTIVE",
+          { holdId: hold.id, status: hold.status }
+        );
+      }
+
+      const released = await tx.updateHold(this.config.tenantId, hold.id, {
+        status: "released",
+        capturedAmount: null,
+        captureEventId: null,
+      });
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "hold",
+        entityId: hold.id,
+        action: "HOLD_RELEASED",
+        payload: {
+          amount: hold.amount,
+          reason: params.reason ?? null,
+        },
+      });
+
+      return released;
+    });
+  }
+
+  async getHold(holdId: string): Promise<LedgerHold> {
+    const hold = await this.storage.getHoldById(this.config.tenantId, holdId);
+    if (!hold) {
+      throw new LedgerError(`Hold ${holdId} not found`, "HOLD_NOT_FOUND", { holdId });
+    }
+    return hold;
+  }
+
+  /**
+   * Reads the hold under its account's lock, so that of two concurrent
+   * captures the second sees the hold already settled.
+   */
+  private async getActiveHold(tx: LedgerStorage, holdId: string): Promise<LedgerHold> {
+    const unlocked = await tx.getHoldById(this.config.tenantId, holdId);
+    if (!unlocked) {
+      throw new LedgerError(`Hold ${holdId} not found`, "HOLD_NOT_FOUND", { holdId });
+    }
+    await tx.lockAccount(this.config.tenantId, unlocked.accountId);
+    const hold = (await tx.getHoldById(this.config.tenantId, holdId)) ?? unlocked;
+    if (hold.status !== "active") {
+      throw new LedgerError(
+        `Hold ${holdId} is already ${hold.status}`,
+        "HOLD_NOT_ACTIVE",
+        { holdId, status: hold.status }
+      );
+    }
+    if (hold.expiresAt && hold.expiresAt <= new Date()) {
+      throw new LedgerError(
+        `Hold ${holdId} expired at ${hold.expiresAt.toISOString()}`,
+        "HOLD_EXPIRED",
+        { holdId, expiresAt: hold.expiresAt.toISOString() }
+      );
+    }
+    return hold;
+  }
+
+  async reverseEvent(params: ReverseEventParams, context?: OperationContext): Promise<LedgerEvent> {
+    return this.withConflictRetry(() => this.storage.transaction(async (tx) => {
+      const existingByKey = await tx.getEventByIdempotencyKey(
+        this.config.tenantId,
+        params.idempotencyKey
+      );
+      if (existingByKey) {
+        return existingByKey;
+      }
+
+      const originalEvent = await tx.getEventById(
+        this.config.tenantId,
+        params.originalEventId
+      );
+      if (!originalEvent) {
+        throw new LedgerError(
+          `Original event ${params.originalEventId} not found`,
+          "EVENT_NOT_FOUND",
+          { eventId: params.originalEventId }
+        );
+      }
+
+      if (parseFxDetails(originalEvent)) {
+        throw new LedgerError(
+          `Event ${params.originalEventId} is an FX leg; reverse transaction ${originalEvent.transactionId} instead`,
+          "FX_LEG_REVERSAL",
+          { eventId: params.originalEventId, transactionId: originalEvent.transactionId }
+        );
+      }
+
+      await tx.lockAccount(this.config.tenantId, originalEvent.accountId);
+
+      const status = await this.computeReversalStatus(tx, originalEvent);
+      if (status.status === "full") {
+        throw new LedgerError(
+          `Event ${params.originalEventId} has already been reversed`,
+          "ALREADY_REVERSED",
+          { eventId: params.originalEventId }
+        );
+      }
+
+      const remaining = Money.parse(status.remainingAmount);
+      const magnitude = params.amount !== undefined ? Money.parse(params.amount) : remaining;
+      if (!magnitude.isPositive()) {
+        throw new LedgerError(
+          `Reversal amount must be positive, got ${params.amount}`,
+          "INVALID_AMOUNT",
+          { amount: params.amount }
+        );
+      }
+      this.currencies.assertPrecision(magnitude, originalEvent.currency);
+      if (magnitude.compare(remaining) > 0) {
+        throw new LedgerError(
+          `Reversing ${magnitude} would exceed the ${remaining} left to reverse on event ${params.originalEventId}`,
+          "OVER_REVERSAL",
+          { eventId: params.originalEventId, amount: magnitude.toString(), remainingAmount: remaining.toString() }
+        );
+      }
+
+      const reversalEventId = params.reversalEventId || uuidv4();
+      const reversedAmount = (Money.parse(originalEvent.amount).isNegative() ? magnitude : magnitude.negate()).toString();
+
+      const [reversalEvent] = await this.appendEvents(tx, [{
+        id: reversalEventId,
+        tenantId: this.config.tenantId,
+        accountId: originalEvent.accountId,
+        eventType: "REVERSAL",
+        amount: reversedAmount,
+        currency: originalEvent.currency,
+        idempotencyKey: params.idempotencyKey,
+        reversesEventId: params.originalEventId,
+        transactionId: null,
+        description: params.description || `Reversal of event ${params.originalEventId}`,
+        metadata: null,
+        sourceType: "reversal",
+        sourceRef: originalEvent.sourceRef,
+      }], context);
+
+      await this.emitAuditEvent(tx, {
+        context,
+        entityType: "event",
+        entityId: reversalEventId,
+        action: "EVENT_REVERSED",
+        payload: {
+          originalEventId: params.originalEventId,
+          reversalAmount: reversedAmount,
+          remainingAmount: remaining.subtract(magnitude).toString(),
+        },
+      });
+
+      return reversalEvent;
+    }));
+  }
+
+  async getReversalStatus(eventId: string): Promise<ReversalStatus> {
+    const event = await this.storage.getEventById(this.config.tenantId, eventId);
+    if (!event) {
+      throw new LedgerError(
+        `Event ${eventId} not found`,
+        "EVENT_NOT_FOUND",
+        { eventId }
+      );
+    }
+
+    return this.computeReversalStatus(this.storage, event);
+  }
+
+  private async computeReversalStatus(storage: LedgerStorage, event: LedgerEvent): Promise<ReversalStatus> {
+    const reversals = await storage.getReversalsOf(this.config.tenantId, event.id);
+    const original = Money.parse(event.amount).abs();
+    const reversed = Money.sum(reversals.map((r) => Money.parse(r.amount).abs()));
+    const remaining = original.subtract(reversed);
+
+    return {
+      eventId: event.id,
+      originalAmount: original.toString(),
+      reversedAmount: reversed.toString(),
+      remainingAmount: (remaining.isNegative() ? Money.zero() : remaining).toString(),
+      status: reversed.isZero() ? "none" : remaining.isPositive() ? "partial" : "full",
+      reversalEventIds: reversals.map((r) => r.id),
+    };
+  }
+
+  /**
+   * Derives a balance from the latest usable snapshot plus the events after it.
+   */
+  private async deriveBalance(
+    storage: LedgerStorage,
+    accountId: string,
+    options?: BalanceOptions
+  ): Promise<{ balance: Money; eventCount: number }> {
+    if (options?.dateBasis === "value") {
+      // Snapshots cut the history in booking order, so value-date balances sum every event.
+      const summary = await storage.summarizeEvents(this.config.tenantId, accountId, {
+        toSequence: options.asOfSequence,
+        toDate: options.asOf,
+        dateBasis: "value",
+      });
+      return { balance: Money.parseTotal(summary.total), eventCount: summary.count };
+    }
+
+    const snapshot = await storage.getLatestBalanceSnapshot(this.config.tenantId, accountId, {
+      maxSequence: options?.asOfSequence,
+      maxEventAt: options?.asOf,
+    });
+
+    const summary = await storage.summarizeEvents(this.config.tenantId, accountId, {
+      fromSequence: snapshot ? snapshot.sequenceNumber + 1 : undefined,
+      toSequence: options?.asOfSequence,
+      toDate: options?.asOf,
+    });
+
+    const base = snapshot ? Money.parseTotal(snapshot.balance) : Money.zero();
+    return {
+      balance: base.add(Money.parseTotal(summary.total)),
+      eventCount: (snapshot?.eventCount ?? 0) + summary.count,
+    };
+  }
+
+  /**
+   * Appends drafts in order, assigning each account's next sequence numbers
+   * and extending its hash chain. Each draft's accounting date (its value
+   * date, else its booking time) must fall outside closed periods. Callers
+   * must hold the account locks.
+   */
+  private async appendEvents(
+    tx: LedgerStorage,
+    drafts: EventDraft[],
+    context?: OperationContext
+  ): Promise<LedgerEvent[]> {
+    const eventContext = this.config.recordEventContext && context ? JSON.stringify(context) : null;
+    const createdAt = new Date();
+    const valueDates: Array<Date | null> = [];
+    for (const draft of drafts) {
+      const valueDate = await this.resolveValueDate(tx, draft);
+      await this.assertPeriodOpen(tx, valueDate ?? createdAt);
+      valueDates.push(valueDate);
+    }
+    for (const accountId of new Set(drafts.map((d) => d.accountId))) {
+      const postings = drafts.filter((d) => d.accountId === accountId).map((d) => Money.parse(d.amount));
+      await this.assertPostingAllowed(tx, accountId, postings);
+    }
+
+    const heads = new Map<string, { sequenceNumber: number; hash: string | null }>();
+    const rows: LedgerEvent[] = [];
+
+    for (const [index, draft] of drafts.entries()) {
+      let head = heads.get(draft.accountId);
+      if (!head) {
+        const latest = await tx.getLatestEvent(this.config.tenantId, draft.accountId);
+        const hash = latest?.hash === null ? (await this.chainLegacyEvents(tx, draft.accountId)).hash : latest?.hash;
+        head = { sequenceNumber: latest?.sequenceNumber ?? 0, hash: hash ?? null };
+      }
+
+      const unhashed = {
+        ...draft,
+        direction: Money.parse(draft.amount).isNegative() ? "debit" as const : "credit" as const,
+        sourceType: draft.sourceType ?? null,
+        sourceRef: draft.sourceRef ?? null,
+        effectiveAt: valueDates[index],
+        sequenceNumber: head.sequenceNumber + 1,
+        previousHash: head.hash,
+        context: eventContext,
+        createdAt,
+      };
+      const row = { ...unhashed, hash: computeEventHash(unhashed) };
+      heads.set(draft.accountId, { sequenceNumber: row.sequenceNumber, hash: row.hash });
+      rows.push(row);
+    }
+
+    const events = await tx.createEvents(rows);
+    const now = new Date();
+    await tx.createOutboxEntries(events.map((event) => ({
+      id: uuidv4(),
+      tenantId: event.tenantId,
+      eventId: event.id,
+      accountId: event.accountId,
+      sequenceNumber: event.sequenceNumber,
+      eventType: event.eventType,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+      deliveredAt: null,
+    })));
+    for (const event of events) {
+      await this.snapshotIfDue(tx, event, context);
+    }
+    return events;
+  }
+
+  /**
+   * The value date to store for a draft. Corrections (adjustments and
+   * reversals) dated inside a closed period fall back to their booking time
+   * and so land in the current open period.
+   */
+  private async resolveValueDate(tx: LedgerStorage, draft: EventDraft): Promise<Date | null> {
+    if (!draft.effectiveAt || (draft.sourceType !== "adjustment" && draft.sourceType !== "reversal")) {
+      return draft.effectiveAt ?? null;
+    }
+    const period = await tx.getPeriodAt(this.config.tenantId, draft.effectiveAt);
+    return period?.status === "closed" ? null : draft.effectiveAt;
+  }
+
+  private async assertPeriodOpen(tx: LedgerStorage, at: Date): Promise<void> {
+    const period = await tx.getPeriodAt(this.config.tenantId, at);
+    if (period?.status === "closed") {
       throw new LedgerError(
-        `Account ${params.accountId} not found`,
+        `Period ${period.name} is closed`,
+        "PERIOD_CLOSED",
+        { periodId: period.id, at }
+      );
+    }
+  }
+
+  /**
+   * Checks account status and balance policy for signed `postings` against
+   * the available balance (ledger balance minus active holds).
+   */
+  private async assertPostingAllowed(
+    tx: LedgerStorage,
+    accountId: string,
+    postings: Money[]
+  ): Promise<LedgerAccount> {
+    const account = await tx.getAccount(this.config.tenantId, accountId);
+    if (!account) {
+      throw new LedgerError(
+        `Account ${accountId} not found`,
         "ACCOUNT_NOT_FOUND",
-        { accountId: params.accountId }
+        { accountId }
       );
     }
 
-    if (account.currency !== params.currency) {
+    if (account.status === "closed") {
       throw new LedgerError(
-        `Currency mismatch: account uses ${account.currency}, event uses ${params.currency}`,
-        "CURRENCY_MISMATCH",
-        { accountCurrency: account.currency, eventCurrency: params.currency }
+        `Account ${accountId} is closed`,
+        "ACCOUNT_CLOSED",
+        { accountId, reason: account.statusReason }
       );
     }
 
-    const eventId = params.eventId || uuidv4();
-    const sequenceNumber = await this.storage.getNextSequenceNumber(
-      this.config.tenantId,
-      params.accountId
-    );
+    if (account.status === "frozen") {
+      const blockAll = this.config.frozenAccountPolicy === "block_all";
+      const hasDebit = postings.some((p) => p.isNegative());
+      if (blockAll || hasDebit) {
+        throw new LedgerError(
+          `Account ${accountId} is frozen`,
+          "ACCOUNT_FROZEN",
+          { accountId, reason: account.statusReason }
+        );
+      }
+    }
 
-    const event = await this.storage.createEvent({
-      id: eventId,
-      tenantId: this.config.tenantId,
-      accountId: params.accountId,
-      eventType: params.eventType,
-      amount: params.amount,
-      currency: params.currency,
-      idempotencyKey: params.idempotencyKey,
-      reversesEventId: null,
-      description: params.description || null,
-      metadata: params.metadata ? JSON.stringify(params.metadata) : null,
-      sequenceNumber,
-    });
+    const policy = this.resolveBalancePolicy(account);
+    if (policy && !policy.exempt) {
+      const { balance } = await this.deriveBalance(tx, accountId);
+      const held = await this.sumActiveHolds(tx, accountId);
+      this.assertWithinBalancePolicy(accountId, policy, balance.subtract(held), Money.sum(postings));
+    }
 
-    await this.emitAuditEvent({
-      entityType: "event",
-      entityId: eventId,
-      action: "EVENT_RECORDED",
-      payload: {
-        accountId: params.accountId,
-        eventType: params.eventType,
-        amount: params.amount,
-        currency: params.currency,
-      },
-    });
+    return account;
+  }
 
-    return event;
+  private async sumActiveHolds(storage: LedgerStorage, accountId: string): Promise<Money> {
+    const holds = await storage.getActiveHolds(this.config.tenantId, accountId, new Date());
+    return Money.sum(holds.map((h) => Money.parse(h.amount)));
   }
 
-  async reverseEvent(params: ReverseEventParams): Promise<LedgerEvent> {
-    const existingByKey = await this.storage.getEventByIdempotencyKey(
-      this.config.tenantId,
-      params.idempotencyKey
-    );
-    if (existingByKey) {
-      return existingByKey;
+  private resolveBalancePolicy(account: LedgerAccount): BalancePolicy | undefined {
+    if (account.balancePolicy) {
+      return JSON.parse(account.balancePolicy) as BalancePolicy;
     }
+    return this.config.balancePolicies?.[account.accountType];
+  }
 
-    const originalEvent = await this.storage.getEventById(
-      this.config.tenantId,
-      params.originalEventId
-    );
-    if (!originalEvent) {
+  private validateBalancePolicy(policy: BalancePolicy): void {
+    if (policy.minimumBalance !== undefined) Money.parse(policy.minimumBalance);
+    if (policy.overdraftLimit !== undefined && Money.parse(policy.overdraftLimit).isNegative()) {
       throw new LedgerError(
-        `Original event ${params.originalEventId} not found`,
-        "EVENT_NOT_FOUND",
-        { eventId: params.originalEventId }
+        "Overdraft limit cannot be negative",
+        "INVALID_BALANCE_POLICY",
+        { overdraftLimit: policy.overdraftLimit }
       );
     }
+  }
 
-    const existingEvents = await this.storage.getEventsByAccountId(
-      this.config.tenantId,
-      originalEvent.accountId
-    );
-    const alreadyReversed = existingEvents.some(
-      (e) => e.reversesEventId === params.originalEventId
-    );
-    if (alreadyReversed) {
-      throw new LedgerError(
-        `Event ${params.originalEventId} has already been reversed`,
-        "ALREADY_REVERSED",
-        { eventId: params.originalEventId }
-      );
+  /**
+   * Rejects a posting that moves the balance past the policy's floor (or,
+   * for debit-normal accounts, its ceiling). Postings that move an account
+   * back toward compliance are always allowed.
+   */
+  private assertWithinBalancePolicy(
+    accountId: string,
+    policy: BalancePolicy,
+    balance: Money,
+    posting: Money
+  ): void {
+    const projected = balance.add(posting);
+    const overdraft = policy.overdraftLimit ? Money.parse(policy.overdraftLimit) : Money.zero();
+
+    if (policy.normalSide === "debit") {
+      const ceiling = overdraft;
+      if (posting.isPositive() && projected.compare(ceiling) > 0) {
+        this.throwPolicyViolation(accountId, balance, projected, ceiling, projected.subtract(ceiling));
+      }
+      return;
     }
 
-    const reversalEventId = params.reversalEventId || uuidv4();
-    const sequenceNumber = await this.storage.getNextSequenceNumber(
-      this.config.tenantId,
-      originalEvent.accountId
+    let floor: Money | undefined;
+    if (policy.minimumBalance !== undefined) {
+      floor = Money.parse(policy.minimumBalance);
+    } else if (policy.normalSide === "credit" || policy.overdraftLimit !== undefined) {
+      floor = Money.zero();
+    }
+    if (!floor) {
+      return;
+    }
+
+    floor = floor.subtract(overdraft);
+    if (posting.isNegative() && projected.compare(floor) < 0) {
+      this.throwPolicyViolation(accountId, balance, projected, floor, floor.subtract(projected));
+    }
+  }
+
+  private throwPolicyViolation(
+    accountId: string,
+    balance: Money,
+    projected: Money,
+    limit: Money,
+    shortfall: Money
+  ): never {
+    throw new LedgerError(
+      `Posting would take account ${accountId} past its balance limit by ${shortfall}`,
+      "BALANCE_POLICY_VIOLATION",
+      {
+        accountId,
+        balance: balance.toString(),
+        projectedBalance: projected.toString(),
+        limit: limit.toString(),
+        shortfall: shortfall.toString(),
+      }
     );
+  }
+
+  private async snapshotIfDue(tx: LedgerStorage, event: LedgerEvent, context?: OperationContext): Promise<void> {
+    const interval = this.config.snapshotInterval;
+    if (!interval || event.sequenceNumber % interval !== 0) {
+      return;
+    }
+    await this.writeBalanceSnapshot(tx, event, context);
+  }
 
-    const reversedAmount = (parseFloat(originalEvent.amount) * -1).toString();
+  private async writeBalanceSnapshot(
+    tx: LedgerStorage,
+    headEvent: LedgerEvent,
+    context?: OperationContext
+  ): Promise<BalanceSnapshot> {
+    const derived = await this.deriveBalance(tx, headEvent.accountId, {
+      asOfSequence: headEvent.sequenceNumber,
+    });
 
-    const reversalEvent = await this.storage.createEvent({
-      id: reversalEventId,
+    const snapshot = await tx.createBalanceSnapshot({
+      id: uuidv4(),
       tenantId: this.config.tenantId,
-      accountId: originalEvent.accountId,
-      eventType: "REVERSAL",
-      amount: reversedAmount,
-      currency: originalEvent.currency,
-      idempotencyKey: params.idempotencyKey,
-      reversesEventId: params.originalEventId,
-      description: params.description || `Reversal of event ${params.originalEventId}`,
-      metadata: null,
-      sequenceNumber,
+      accountId: headEvent.accountId,
+      sequenceNumber: headEvent.sequenceNumber,
+      balance: derived.balance.toString(),
+      eventCount: derived.eventCount,
+      lastEventAt: headEvent.createdAt,
     });
 
-    await this.emitAuditEvent({
-      entityType: "event",
-      entityId: reversalEventId,
-      action: "EVENT_REVERSED",
+    await this.emitAuditEvent(tx, {
+      context,
+      entityType: "account",
+      entityId: headEvent.accountId,
+      action: "SNAPSHOT_CREATED",
       payload: {
-        originalEventId: params.originalEventId,
-        reversalAmount: reversedAmount,
+        sequenceNumber: snapshot.sequenceNumber,
+        balance: snapshot.balance,
       },
     });
 
-    return reversalEvent;
+    return snapshot;
   }
 
-  async getAccountBalance(accountId: string): Promise<AccountBalance> {
+  async createBalanceSnapshot(accountId: string, context?: OperationContext): Promise<BalanceSnapshot> {
+    return this.storage.transaction(async (tx) => {
+      const account = await tx.getAccount(this.config.tenantId, accountId);
+      if (!account) {
+        throw new LedgerError(
+          `Account ${accountId} not found`,
+          "ACCOUNT_NOT_FOUND",
+          { accountId }
+        );
+      }
+
+      await tx.lockAccount(this.config.tenantId, accountId);
+
+      const headEvent = await tx.getLatestEvent(this.config.tenantId, accountId);
+      if (!headEvent) {
+        throw new LedgerError(
+          `Account ${accountId} has no events to snapshot`,
+          "NO_EVENTS",
+          { accountId }
+        );
+      }
+
+      const existing = await tx.getLatestBalanceSnapshot(this.config.tenantId, accountId);
+      if (existing && existing.sequenceNumber === headEvent.sequenceNumber) {
+        return existing;
+      }
+
+      return this.writeBalanceSnapshot(tx, headEvent, context);
+    });
+  }
+
+  async getAccountBalance(accountId: string, options?: BalanceOptions): Promise<AccountBalance> {
     const account = await this.storage.getAccount(this.config.tenantId, accountId);
     if (!account) {
       throw new LedgerError(
@@ -330,24 +2938,28 @@ export class Ledger {
       );
     }
 
-    const events = await this.storage.getEventsByAccountId(this.config.tenantId, accountId);
-    
-    let balance = 0;
-    for (const event of events) {
-      balance += parseFloat(event.amount);
-    }
+    const derived = await this.deriveBalance(this.storage, accountId, options);
+    const pointInTime = options?.asOf !== undefined || options?.asOfSequence !== undefined;
+    const held = pointInTime ? undefined : await this.sumActiveHolds(this.storage, accountId);
 
     return {
       accountId,
-      balance: balance.toFixed(8),
+      balance: derived.balance.toString(),
       currency: account.currency,
-      eventCount: events.length,
+      status: account.status,
+      eventCount: derived.eventCount,
+      ...(held && {
+        availableBalance: derived.balance.subtract(held).toString(),
+        heldAmount: held.toString(),
+      }),
+      ...(options?.asOf && { asOf: options.asOf }),
+      ...(options?.asOfSequence !== undefined && { asOfSequence: options.asOfSequence }),
     };
   }
 
   async getAccountStatement(
     accountId: string,
-    options?: { fromDate?: Date; toDate?: Date }
+    options?: StatementOptions
   ): Promise<AccountStatement> {
     const account = await this.storage.getAccount(this.config.tenantId, accountId);
     if (!account) {
@@ -358,45 +2970,169 @@ export class Ledger {
       );
     }
 
-    let events = await this.storage.getEventsByAccountId(this.config.tenantId, accountId);
-    
-    events.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+    const limit = options?.limit;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new LedgerError(
+        `Statement limit must be a positive integer, got ${limit}`,
+        "INVALID_LIMIT",
+        { limit }
+      );
+    }
+    const dateBasis = options?.dateBasis ?? "booking";
+    const byValue = dateBasis === "value";
+    const after = options?.cursor !== undefined ? decodeStatementCursor(options.cursor, dateBasis) : undefined;
 
-    if (options?.fromDate || options?.toDate) {
-      events = events.filter((e) => {
-        const eventDate = e.createdAt;
-        if (options.fromDate && eventDate < options.fromDate) return false;
-        if (options.toDate && eventDate > options.toDate) return false;
-        return true;
-      });
+    const events = await this.storage.getEventsInRange(
+      this.config.tenantId,
+      accountId,
+      {
+        fromSequence: after && !byValue ? after.sequenceNumber + 1 : undefined,
+        after: after && byValue ? after : undefined,
+        fromDate: options?.fromDate,
+        toDate: options?.toDate,
+        dateBasis,
+      },
+      limit !== undefined ? limit + 1 : undefined
+    );
+    const hasMore = limit !== undefined && events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    // The opening balance is everything before the first entry in the chosen order.
+    const valueBalanceBefore = async (before: EventPosition) =>
+      Money.parseTotal((await this.storage.summarizeEvents(this.config.tenantId, accountId, { before })).total);
+    let opening: Money;
+    if (page.length > 0 && byValue) {
+      opening = await valueBalanceBefore(valuePosition(page[0]));
+    } else if (page.length > 0) {
+      opening = (await this.deriveBalance(this.storage, accountId, {
+        asOfSequence: page[0].sequenceNumber - 1,
+      })).balance;
+    } else if (after && byValue) {
+      opening = await valueBalanceBefore({ date: after.date, sequenceNumber: after.sequenceNumber + 1 });
+    } else if (after) {
+      opening = (await this.deriveBalance(this.storage, accountId, { asOfSequence: after.sequenceNumber })).balance;
+    } else if (options?.fromDate) {
+      opening = (await this.deriveBalance(this.storage, accountId, {
+        asOf: new Date(options.fromDate.getTime() - 1),
+        dateBasis,
+      })).balance;
+    } else {
+      opening = Money.zero();
     }
 
-    let runningBalance = 0;
-    const entries: StatementEntry[] = events.map((event) => {
-      runningBalance += parseFloat(event.amount);
+    let runningBalance = opening;
+    const entries: StatementEntry[] = page.map((event) => {
+      runningBalance = runningBalance.add(Money.parse(event.amount));
       return {
         eventId: event.id,
         eventType: event.eventType,
         amount: event.amount,
-        runningBalance: runningBalance.toFixed(8),
+        runningBalance: runningBalance.toString(),
         description: event.description,
+        transactionId: event.transactionId,
         createdAt: event.createdAt,
+        ...(event.effectiveAt && { effectiveAt: event.effectiveAt }),
       };
     });
 
-    const openingBalance = entries.length > 0 
-      ? (parseFloat(entries[0].runningBalance) - parseFloat(entries[0].amount)).toFixed(8)
-      : "0.00000000";
-    const closingBalance = entries.length > 0 
-      ? entries[entries.length - 1].runningBalance 
-      : "0.00000000";
+    if (options?.includeSiblingLegs) {
+      for (const entry of entries) {
+        if (!entry.transactionId) continue;
+        const legs = await this.storage.getEventsByTransactionId(
+          this.config.tenantId,
+          entry.transactionId
+        );
+        entry.siblingLegs = legs
+          .filter((leg) => leg.id !== entry.eventId)
+          .map((leg) => ({
+            eventId: leg.id,
+            accountId: leg.accountId,
+            amount: leg.amount,
+            currency: leg.currency,
+          }));
+      }
+    }
 
     return {
       accountId,
       currency: account.currency,
+      status: account.status,
       entries,
-      openingBalance,
-      closingBalance,
+      openingBalance: opening.toString(),
+      closingBalance: runningBalance.toString(),
+      nextCursor: hasMore ? encodeStatementCursor(page[page.length - 1], dateBasis) : null,
+    };
+  }
+
+  /** The registry callers' event types are checked against, when `eventTypes` is configured. */
+  getEventTypes(): Record<string, EventTypeDefinition> {
+    return { ...(this.eventTypes ?? DEFAULT_EVENT_TYPES) };
+  }
+
+  /** Pages through events by source, oldest first. */
+  async getEventsBySource(query: EventSourceQuery): Promise<EventPage> {
+    const limit = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      throw new LedgerError(
+        `Event query limit must be an integer from 1 to ${MAX_AUDIT_PAGE_SIZE}, got ${limit}`,
+        "INVALID_LIMIT",
+        { limit }
+      );
+    }
+    if (query.sourceType !== undefined && !EVENT_SOURCE_TYPES.includes(query.sourceType)) {
+      throw new LedgerError(`Unknown source type ${query.sourceType}`, "INVALID_SOURCE_TYPE", {
+        sourceType: query.sourceType,
+      });
+    }
+
+    const events = await this.storage.queryEventsBySource(
+      this.config.tenantId,
+      {
+        sourceType: query.sourceType,
+        sourceRef: query.sourceRef,
+        accountId: query.accountId,
+        after: query.cursor !== undefined ? decodeKeysetCursor(query.cursor, "event query") : undefined,
+      },
+      limit + 1
+    );
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      events: page,
+      nextCursor: hasMore ? encodeKeysetCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  async getAuditTrail(query: AuditTrailQuery = {}): Promise<AuditTrailPage> {
+    const limit = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      throw new LedgerError(
+        `Audit trail limit must be an integer from 1 to ${MAX_AUDIT_PAGE_SIZE}, got ${limit}`,
+        "INVALID_LIMIT",
+        { limit }
+      );
+    }
+
+    const events = await this.storage.queryAuditEvents(
+      this.config.tenantId,
+      {
+        entityType: query.entityType,
+        entityId: query.entityId,
+        action: query.action,
+        actorId: query.actorId,
+        fromDate: query.fromDate,
+        toDate: query.toDate,
+        after: query.cursor !== undefined ? decodeKeysetCursor(query.cursor, "audit trail") : undefined,
+      },
+      limit + 1
+    );
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      events: page,
+      nextCursor: hasMore ? encodeKeysetCursor(page[page.length - 1]) : null,
     };
   }
 
@@ -410,46 +3146,483 @@ export class Ledger {
       );
     }
 
+    const inspection = await this.inspectAccount(account);
+    const findings = [...inspection.findings];
+
+    const transactions: TransactionIntegrity[] = [];
+    for (const transactionId of inspection.transactionIds) {
+      const result = await this.inspectTransaction(transactionId);
+      transactions.push(result.integrity);
+      findings.push(...result.findings);
+    }
+
+    return {
+      valid: findings.length === 0,
+      accountId,
+      expectedBalance: inspection.expectedBalance.toString(),
+      calculatedBalance: inspection.calculatedBalance.toString(),
+      eventCount: inspection.eventCount,
+      snapshotsVerified: inspection.snapshotsVerified,
+      firstBrokenLink: inspection.firstBrokenLink,
+      transactions,
+      findings,
+      errors: findings.map((f) => f.message),
+    };
+  }
+
+  /**
+   * Verifies every account of the tenant and every transaction that touches
+   * them. Each finding carries a stable `code` for alerting and dashboards.
+   */
+  async verifyTenantIntegrity(): Promise<TenantIntegrityReport> {
+    const accounts = await this.storage.getAccounts(this.config.tenantId);
+    const findings: IntegrityFinding[] = [];
+    const transactionIds = new Set<string>();
+    let eventCount = 0;
+
+    for (const account of accounts) {
+      const inspection = await this.inspectAccount(account);
+      findings.push(...inspection.findings);
+      eventCount += inspection.eventCount;
+      inspection.transactionIds.forEach((id) => transactionIds.add(id));
+    }
+
+    for (const transactionId of transactionIds) {
+      const result = await this.inspectTransaction(transactionId);
+      findings.push(...result.findings);
+    }
+
+    return {
+      valid: findings.length === 0,
+      tenantId: this.config.tenantId,
+      accountCount: accounts.length,
+      eventCount,
+      transactionCount: transactionIds.size,
+      findings,
+    };
+  }
+
+  private async inspectAccount(account: LedgerAccount): Promise<AccountInspection> {
+    const accountId = account.id;
     const events = await this.storage.getEventsByAccountId(this.config.tenantId, accountId);
-    const errors: string[] = [];
+    const findings: IntegrityFinding[] = [];
+    const finding = (code: IntegrityFindingCode, message: string, eventId?: string) =>
+      findings.push({ code, accountId, ...(eventId && { eventId }), message });
 
     events.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
 
+    // Expect each sequence to follow the last distinct one, so a duplicate or
+    // gap is reported once rather than for every later event.
+    let expected = 1;
     for (let i = 0; i < events.length; i++) {
-      if (events[i].sequenceNumber !== i + 1) {
-        errors.push(`Gap in sequence: expected ${i + 1}, got ${events[i].sequenceNumber}`);
+      const { sequenceNumber } = events[i];
+      if (i > 0 && sequenceNumber === events[i - 1].sequenceNumber) {
+        finding("DUPLICATE_SEQUENCE", `Duplicate sequence number ${sequenceNumber}`, events[i].id);
+        continue;
       }
+      if (sequenceNumber !== expected) {
+        finding("SEQUENCE_GAP", `Gap in sequence: expected ${expected}, got ${sequenceNumber}`, events[i].id);
+      }
+      expected = sequenceNumber + 1;
     }
 
     for (const event of events) {
       if (event.tenantId !== this.config.tenantId) {
-        errors.push(`Tenant isolation violation: event ${event.id} has wrong tenantId`);
+        finding("TENANT_MISMATCH", `Tenant isolation violation: event ${event.id} has wrong tenantId`, event.id);
+      }
+      if (event.currency !== account.currency) {
+        finding(
+          "CURRENCY_MISMATCH",
+          `Event ${event.id} uses ${event.currency} but account uses ${account.currency}`,
+          event.id
+        );
+      }
+      if (event.direction !== null && event.direction !== (Money.parse(event.amount).isNegative() ? "debit" : "credit")) {
+        finding(
+          "DIRECTION_MISMATCH",
+          `Event ${event.id} is a ${event.direction} but its amount is ${Money.parse(event.amount)}`,
+          event.id
+        );
       }
     }
 
-    let calculatedBalance = 0;
-    for (const event of events) {
-      calculatedBalance += parseFloat(event.amount);
+    const eventsById = new Map(events.map((e) => [e.id, e]));
+    const reversalsByTarget = new Map<string, LedgerEvent[]>();
+    for (const reversal of events.filter((e) => e.reversesEventId)) {
+      const targetId = reversal.reversesEventId as string;
+      reversalsByTarget.set(targetId, [...(reversalsByTarget.get(targetId) ?? []), reversal]);
+
+      const target = eventsById.get(targetId);
+      if (!target) {
+        const elsewhere = await this.storage.getEventById(this.config.tenantId, targetId);
+        finding(
+          elsewhere ? "REVERSAL_ACCOUNT_MISMATCH" : "REVERSAL_TARGET_MISSING",
+          elsewhere
+            ? `Reversal ${reversal.id} targets event ${targetId} in another account`
+            : `Reversal ${reversal.id} targets missing event ${targetId}`,
+          reversal.id
+        );
+        continue;
+      }
+
+      const reversalAmount = Money.parse(reversal.amount);
+      const targetAmount = Money.parse(target.amount);
+      const opposesTarget = reversalAmount.isNegative() !== targetAmount.isNegative() && !reversalAmount.isZero();
+      if (!opposesTarget || reversalAmount.abs().compare(targetAmount.abs()) > 0) {
+        finding(
+          "REVERSAL_AMOUNT_MISMATCH",
+          `Reversal ${reversal.id} amount ${reversal.amount} does not offset ${target.amount}`,
+          reversal.id
+        );
+      }
+    }
+    for (const [targetId, reversals] of reversalsByTarget) {
+      const target = eventsById.get(targetId);
+      const reversed = Money.sum(reversals.map((r) => Money.parse(r.amount).abs()));
+      if (target && reversed.compare(Money.parse(target.amount).abs()) > 0) {
+        finding(
+          "OVER_REVERSED",
+          `Event ${targetId} is reversed by ${reversed} in total, more than its ${Money.parse(target.amount).abs()}`,
+          targetId
+        );
+      }
+    }
+
+    const firstBrokenLink = this.findFirstBrokenLink(events);
+    if (firstBrokenLink) {
+      finding(
+        "HASH_CHAIN_BROKEN",
+        `Hash chain broken at sequence ${firstBrokenLink.sequenceNumber} (event ${firstBrokenLink.eventId}): ${firstBrokenLink.reason}`,
+        firstBrokenLink.eventId
+      );
     }
 
-    const balance = await this.getAccountBalance(accountId);
-    const expectedBalance = parseFloat(balance.balance);
+    const snapshots = await this.storage.getBalanceSnapshots(this.config.tenantId, accountId);
+    for (const snapshot of snapshots) {
+      const covered = events.filter((e) => e.sequenceNumber <= snapshot.sequenceNumber);
+      const coveredBalance = Money.sum(covered.map((e) => Money.parse(e.amount)));
+      if (!coveredBalance.equals(Money.parseTotal(snapshot.balance)) || covered.length !== snapshot.eventCount) {
+        finding(
+          "SNAPSHOT_MISMATCH",
+          `Snapshot mismatch at sequence ${snapshot.sequenceNumber}: snapshot ${Money.parseTotal(snapshot.balance)} over ${snapshot.eventCount} events, events sum to ${coveredBalance} over ${covered.length}`
+        );
+      }
+    }
 
-    if (Math.abs(calculatedBalance - expectedBalance) > 0.00000001) {
-      errors.push(
-        `Balance mismatch: expected ${expectedBalance}, calculated ${calculatedBalance}`
+    // The loaded rows are summed here, independently of the storage aggregate
+    // and snapshots that back getAccountBalance.
+    const calculatedBalance = Money.sum(events.map((e) => Money.parse(e.amount)));
+    const derived = await this.deriveBalance(this.storage, accountId);
+    if (!calculatedBalance.equals(derived.balance) || derived.eventCount !== events.length) {
+      finding(
+        "BALANCE_MISMATCH",
+        `Balance mismatch: expected ${derived.balance} over ${derived.eventCount} events, calculated ${calculatedBalance} over ${events.length}`
       );
     }
 
     return {
-      valid: errors.length === 0,
-      accountId,
-      expectedBalance: expectedBalance.toFixed(8),
-      calculatedBalance: calculatedBalance.toFixed(8),
+      findings,
+      firstBrokenLink,
+      snapshotsVerified: snapshots.length,
       eventCount: events.length,
-      errors,
+      expectedBalance: derived.balance,
+      calculatedBalance,
+      transactionIds: [...new Set(events.filter((e) => e.transactionId).map((e) => e.transactionId as string))],
+    };
+  }
+
+  private async inspectTransaction(
+    transactionId: string
+  ): Promise<{ integrity: TransactionIntegrity; findings: IntegrityFinding[] }> {
+    const legs = await this.storage.getEventsByTransactionId(this.config.tenantId, transactionId);
+    const findings: IntegrityFinding[] = [];
+
+    const fx = legs.length > 0 ? parseFxDetails(legs[0]) : null;
+    if (fx) {
+      findings.push(...this.inspectFxTransaction(transactionId, legs, fx));
+      return {
+        integrity: {
+          transactionId,
+          balanced: findings.length === 0,
+          legs: legs.map((leg) => ({
+            eventId: leg.id,
+            accountId: leg.accountId,
+            amount: leg.amount,
+            currency: leg.currency,
+          })),
+        },
+        findings,
+      };
+    }
+
+    const netByCurrency = new Map<string, Money>();
+    for (const leg of legs) {
+      netByCurrency.set(
+        leg.currency,
+        (netByCurrency.get(leg.currency) ?? Money.zero()).add(Money.parse(leg.amount))
+      );
+    }
+
+    for (const [currency, net] of netByCurrency) {
+      if (!net.isZero()) {
+        for (const accountId of new Set(legs.filter((l) => l.currency === currency).map((l) => l.accountId))) {
+          findings.push({
+            code: "UNBALANCED_TRANSACTION",
+            accountId,
+            message: `Unbalanced transaction ${transactionId}: ${currency} legs net to ${net}`,
+          });
+        }
+      }
+    }
+
+    return {
+      integrity: {
+        transactionId,
+        balanced: findings.length === 0,
+        legs: legs.map((leg) => ({
+          eventId: leg.id,
+          accountId: leg.accountId,
+          amount: leg.amount,
+          currency: leg.currency,
+        })),
+      },
+      findings,
+    };
+  }
+
+  /**
+   * An FX transaction balances when its destination-currency legs, plus the
+   * residue it carried, offset the source legs converted at the recorded rate.
+   */
+  private inspectFxTransaction(transactionId: string, legs: LedgerEvent[], fx: FxDetails): IntegrityFinding[] {
+    const net = (currency: string) =>
+      Money.sum(legs.filter((l) => l.currency === currency).map((l) => Money.parse(l.amount)));
+    const source = net(fx.fromCurrency);
+    const destination = net(fx.toCurrency);
+    const expected = source.negate().multiply(Money.parse(fx.rate));
+    const residue = Money.parseTotal(fx.residue ?? "0");
+    const carried = source.isNegative() ? residue : residue.negate();
+    const foreign = legs.filter((l) => l.currency !== fx.fromCurrency && l.currency !== fx.toCurrency);
+
+    if (destination.add(carried).equals(expected) && foreign.length === 0) {
+      return [];
+    }
+    return [...new Set(legs.map((l) => l.accountId))].map((accountId) => ({
+      code: "UNBALANCED_TRANSACTION" as const,
+      accountId,
+      message: `Unbalanced FX transaction ${transactionId}: ${fx.toCurrency} legs net to ${destination}, expected ${expected} at rate ${fx.rate}`,
+    }));
+  }
+
+  /**
+   * Walks events in sequence order and returns the first link whose stored
+   * hashes no longer match the recomputed chain.
+   */
+  private findFirstBrokenLink(sortedEvents: LedgerEvent[]): BrokenChainLink | null {
+    let previousHash: string | null = null;
+    for (const event of sortedEvents) {
+      if (event.previousHash !== previousHash) {
+        return { eventId: event.id, sequenceNumber: event.sequenceNumber, reason: "PREVIOUS_HASH_MISMATCH" };
+      }
+      if (computeEventHash(event) !== event.hash) {
+        return { eventId: event.id, sequenceNumber: event.sequenceNumber, reason: "HASH_MISMATCH" };
+      }
+      previousHash = event.hash;
+    }
+    return null;
+  }
+
+  /**
+   * Hashes every account's events stored before the hash chain existed, so
+   * they verify like any other. Accounts that post first are chained on
+   * their next append. Returns the number of events hashed.
+   */
+  async backfillHashChain(context?: OperationContext): Promise<number> {
+    let total = 0;
+    for (const account of await this.storage.getAccounts(this.config.tenantId)) {
+      total += await this.storage.transaction(async (tx) => {
+        await tx.lockAccount(this.config.tenantId, account.id);
+        const latest = await tx.getLatestEvent(this.config.tenantId, account.id);
+        if (latest?.hash !== null) {
+          return 0;
+        }
+
+        const { filled } = await this.chainLegacyEvents(tx, account.id);
+        await this.emitAuditEvent(tx, {
+          context,
+          entityType: "account",
+          entityId: account.id,
+          action: "HASH_CHAIN_BACKFILLED",
+          payload: { events: filled },
+        });
+        return filled;
+      });
+    }
+    return total;
+  }
+
+  /**
+   * Fills in hashes on the account's unhashed events in sequence order and
+   * returns the resulting chain head. Callers must hold the account lock.
+   */
+  private async chainLegacyEvents(
+    tx: LedgerStorage,
+    accountId: string
+  ): Promise<{ hash: string | null; filled: number }> {
+    const events = await tx.getEventsInRange(this.config.tenantId, accountId);
+    const hashes: Pick<LedgerEvent, "id" | "hash" | "previousHash">[] = [];
+    let previousHash: string | null = null;
+    for (const event of events) {
+      if (event.hash === null) {
+        const hash = computeEventHash({ ...event, previousHash });
+        hashes.push({ id: event.id, hash, previousHash });
+        previousHash = hash;
+      } else {
+        previousHash = event.hash;
+      }
+    }
+    await tx.setEventHashes(this.config.tenantId, hashes);
+    return { hash: previousHash, filled: hashes.length };
+  }
+
+  async getChainHead(accountId: string): Promise<ChainHead | null> {
+    const account = await this.storage.getAccount(this.config.tenantId, accountId);
+    if (!account) {
+      throw new LedgerError(
+        `Account ${accountId} not found`,
+        "ACCOUNT_NOT_FOUND",
+        { accountId }
+      );
+    }
+
+    const latest = await this.storage.getLatestEvent(this.config.tenantId, accountId);
+    return latest
+      ? { accountId, sequenceNumber: latest.sequenceNumber, hash: latest.hash }
+      : null;
+  }
+
+  /**
+   * Signs the current head of every account's hash chain. Anchoring the result
+   * elsewhere lets a later `verifyChainHeadDigest` prove no history was rewritten.
+   */
+  async exportChainHeadDigest(): Promise<ChainHeadDigest> {
+    const signingKey = this.requireSigningKey();
+    const accounts = await this.storage.getAccounts(this.config.tenantId);
+
+    const heads: ChainHead[] = [];
+    for (const account of accounts) {
+      const head = await this.getChainHead(account.id);
+      if (head) heads.push(head);
+    }
+    heads.sort((a, b) => (a.accountId < b.accountId ? -1 : a.accountId > b.accountId ? 1 : 0));
+
+    const generatedAt = new Date().toISOString();
+    const digest = sha256(JSON.stringify([this.config.tenantId, generatedAt, heads]));
+
+    return {
+      tenantId: this.config.tenantId,
+      generatedAt,
+      heads,
+      digest,
+      algorithm: SIGNATURE_ALGORITHM,
+      signature: signDigest(digest, signingKey),
     };
   }
+
+  /**
+   * Checks the digest's signature and that every anchored head is still part
+   * of the stored chain, reading only the anchored event of each account.
+   * Returns the list of problems found.
+   */
+  async verifyChainHeadDigest(anchor: ChainHeadDigest): Promise<string[]> {
+    const signingKey = this.requireSigningKey();
+    const problems: string[] = [];
+
+    if (anchor.tenantId !== this.config.tenantId) {
+      problems.push(`Digest belongs to tenant ${anchor.tenantId}`);
+    }
+    const digest = sha256(JSON.stringify([anchor.tenantId, anchor.generatedAt, anchor.heads]));
+    if (digest !== anchor.digest) {
+      problems.push("Digest does not match its chain heads");
+    }
+    if (!verifyDigestSignature(anchor.digest, anchor.signature, signingKey)) {
+      problems.push("Digest signature is invalid");
+    }
+
+    for (const head of anchor.heads) {
+      const anchored = await this.storage.getEventBySequence(this.config.tenantId, head.accountId, head.sequenceNumber);
+      if (!anchored || anchored.hash !== head.hash) {
+        problems.push(`Account ${head.accountId} no longer matches anchored head at sequence ${head.sequenceNumber}`);
+      }
+    }
+
+    return problems;
+  }
+
+  private requireSigningKey(): string {
+    if (!this.config.chainSigningKey) {
+      throw new LedgerError(
+        "A chainSigningKey is required to sign chain-head digests",
+        "SIGNING_KEY_MISSING"
+      );
+    }
+    return this.config.chainSigningKey;
+  }
+}
+
+function parseFxDetails(event: LedgerEvent): FxDetails | null {
+  if (!event.metadata || !event.transactionId) return null;
+  try {
+    const { fx } = JSON.parse(event.metadata);
+    return fx && typeof fx.rate === "string" && typeof fx.toCurrency === "string" ? fx : null;
+  } catch {
+    return null;
+  }
+}
+
+function valuePosition(event: LedgerEvent): EventPosition {
+  return { date: event.effectiveAt ?? event.createdAt, sequenceNumber: event.sequenceNumber };
+}
+
+/** Booking-order cursors carry the last sequence; value-order cursors also its value date. */
+function encodeStatementCursor(last: LedgerEvent, dateBasis: DateBasis): string {
+  const cursor =
+    dateBasis === "value"
+      ? { afterSequence: last.sequenceNumber, afterDate: valuePosition(last).date.toISOString() }
+      : { afterSequence: last.sequenceNumber };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeStatementCursor(cursor: string, dateBasis: DateBasis): EventPosition {
+  try {
+    const { afterSequence, afterDate } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const date = new Date(afterDate);
+    const matchesBasis = dateBasis === "value" ? typeof afterDate === "string" && !Number.isNaN(date.getTime()) : afterDate === undefined;
+    if (Number.isInteger(afterSequence) && afterSequence >= 0 && matchesBasis) {
+      return { date, sequenceNumber: afterSequence };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new LedgerError("Invalid statement cursor", "INVALID_CURSOR", { cursor });
+}
+
+/** Cursor over rows ordered by (createdAt, id): audit events and source queries. */
+function encodeKeysetCursor(row: { createdAt: Date; id: string }): string {
+  return Buffer.from(JSON.stringify({ createdAt: row.createdAt.toISOString(), id: row.id })).toString("base64url");
+}
+
+function decodeKeysetCursor(cursor: string, kind: string): { createdAt: Date; id: string } {
+  try {
+    const { createdAt, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const date = new Date(createdAt);
+    if (typeof id === "string" && typeof createdAt === "string" && !Number.isNaN(date.getTime())) {
+      return { createdAt: date, id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new LedgerError(`Invalid ${kind} cursor`, "INVALID_CURSOR", { cursor });
 }
 
 export const VERSION = "0.0.0";
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { Money } from "./money";
+import { LedgerError } from "./errors";
+
+describe("Money", () => {
+  describe("parse", () => {
+    it("should parse integers and decimals", () => {
+      expect(Money.parse("100").toString()).toBe("100.00000000");
+      expect(Money.parse("-30.25").toString()).toBe("-30.25000000");
+      expect(Money.parse("0.00000001").toString()).toBe("0.00000001");
+    });
+
+    it("should accept the full numeric(20,8) range", () => {
+      expect(Money.parse("999999999999.99999999").toString()).toBe("999999999999.99999999");
+    });
+
+    it("should parse totals beyond the single-amount limit", () => {
+      expect(Money.parseTotal("-1234567890123456.5").toString()).toBe("-1234567890123456.50000000");
+      expect(() => Money.parse("1234567890123456.5")).toThrow(LedgerError);
+      expect(() => Money.parseTotal("1.123456789")).toThrow(LedgerError);
+    });
+
+    it("should reject NaN, exponents and excess precision", () => {
+      for (const value of ["NaN", "Infinity", "1e5", "1.5E-3", "0.123456789", "1234567890123", "+5", "1.", ".5", " "]) {
+        expect(() => Money.parse(value)).toThrow(LedgerError);
+      }
+    });
+
+    it("should report INVALID_AMOUNT", () => {
+      expect.assertions(1);
+      try {
+        Money.parse("abc");
+      } catch (error) {
+        expect((error as LedgerError).code).toBe("INVALID_AMOUNT");
+      }
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add without floating point drift", () => {
+      const total = Money.sum(Array.from({ length: 10 }, () => Money.parse("0.1")));
+      expect(total.toString()).toBe("1.00000000");
+      expect(Money.parse("0.1").add(Money.parse("0.2")).equals(Money.parse("0.3"))).toBe(true);
+    });
+
+    it("should subtract, negate and take absolute values", () => {
+      const value = Money.parse("5").subtract(Money.parse("7.5"));
+      expect(value.toString()).toBe("-2.50000000");
+      expect(value.negate().toString()).toBe("2.50000000");
+      expect(value.abs().toString()).toBe("2.50000000");
+      expect(value.isNegative()).toBe(true);
+    });
+
+    it("should compare values", () => {
+      expect(Money.parse("1").compare(Money.parse("2"))).toBe(-1);
+      expect(Money.parse("2").compare(Money.parse("1"))).toBe(1);
+      expect(Money.parse("1.0").compare(Money.parse("1"))).toBe(0);
+      expect(Money.zero().isZero()).toBe(true);
+    });
+
+    it("should multiply exactly and round half away from zero", () => {
+      expect(Money.parse("100").multiply(Money.parse("0.00065")).toString()).toBe("0.06500000");
+      expect(Money.parse("0.00000001").multiply(Money.parse("0.5")).toString()).toBe("0.00000001");
+      expect(Money.parse("-0.00000001").multiply(Money.parse("0.5")).toString()).toBe("-0.00000001");
+      expect(Money.parse("1234.5").multiply(Money.parse("1550.25")).toString()).toBe("1913783.62500000");
+    });
+
+    it("should round to fewer decimals", () => {
+      expect(Money.parse("2.345").round(2).toString()).toBe("2.35000000");
+      expect(Money.parse("-2.345").round(2).toString()).toBe("-2.35000000");
+      expect(Money.parse("2.344").round(2).toString()).toBe("2.34000000");
+      expect(Money.parse("7.5").round(0).toString()).toBe("8.00000000");
+      expect(() => Money.parse("1").round(9)).toThrow(LedgerError);
+    });
+
+    it("should format negative fractions below one", () => {
+      expect(Money.parse("-0.5").toString()).toBe("-0.50000000");
+    });
+  });
+});
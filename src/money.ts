@@ -0,0 +1,150 @@
+import { LedgerError } from "./errors";
+
+/**
+ * Number of decimal places stored by the `numeric(20, 8)` amount columns.
+ */
+export const MONEY_SCALE = 8;
+
+const MAX_INTEGER_DIGITS = 20 - MONEY_SCALE;
+const SCALE_FACTOR = BigInt(10) ** BigInt(MONEY_SCALE);
+const AMOUNT_PATTERN = new RegExp(`^(-)?(\\d{1,${MAX_INTEGER_DIGITS}})(?:\\.(\\d{1,${MONEY_SCALE}}))?$`);
+const TOTAL_PATTERN = new RegExp(`^(-)?(\\d+)(?:\\.(\\d{1,${MONEY_SCALE}}))?$`);
+
+/**
+ * Exact decimal amount held as an integer count of 10^-8 units.
+ *
+ * Every amount that is parsed, summed, negated or formatted by the ledger goes
+ * through this type so results match the `numeric(20, 8)` column exactly.
+ */
+export class Money {
+  private constructor(private readonly units: bigint) {}
+
+  static zero(): Money {
+    return new Money(BigInt(0));
+  }
+
+  static fromUnits(units: bigint): Money {
+    return new Money(units);
+  }
+
+  /**
+   * Parses a plain decimal string such as "100", "-30.25" or "0.00000001".
+   * Rejects NaN, exponent notation, thousands separators and values with more
+   * than eight decimal places or twelve integer digits.
+   */
+  static parse(value: string): Money {
+    return Money.fromMatch(value, AMOUNT_PATTERN);
+  }
+
+  /**
+   * Parses a balance, roll-up or other sum of amounts. Same syntax as `parse`
+   * but without the twelve-digit limit, which applies to single amounts only.
+   */
+  static parseTotal(value: string): Money {
+    return Money.fromMatch(value, TOTAL_PATTERN);
+  }
+
+  private static fromMatch(value: string, pattern: RegExp): Money {
+    const match = typeof value === "string" ? pattern.exec(value.trim()) : null;
+    if (!match) {
+      throw new LedgerError(`Invalid amount: ${value}`, "INVALID_AMOUNT", { amount: value });
+    }
+
+    const [, sign, whole, fraction = ""] = match;
+    const units = BigInt(whole) * SCALE_FACTOR + BigInt(fraction.padEnd(MONEY_SCALE, "0"));
+    return new Money(sign ? -units : units);
+  }
+
+  static isValid(value: string): boolean {
+    return typeof value === "string" && AMOUNT_PATTERN.test(value.trim());
+  }
+
+  static sum(values: Iterable<Money>): Money {
+    let total = BigInt(0);
+    for (const value of values) {
+      total += value.units;
+    }
+    return new Money(total);
+  }
+
+  add(other: Money): Money {
+    return new Money(this.units + other.units);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.units - other.units);
+  }
+
+  /**
+   * Exact product with `factor`, rounded half away from zero to eight decimals.
+   */
+  multiply(factor: Money): Money {
+    return new Money(divideRounded(this.units * factor.units, SCALE_FACTOR));
+  }
+
+  /**
+   * Rounds half away from zero to `decimals` places (0 to 8).
+   */
+  round(decimals: number): Money {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > MONEY_SCALE) {
+      throw new LedgerError(`Cannot round to ${decimals} decimals`, "INVALID_SCALE", { decimals });
+    }
+    const step = BigInt(10) ** BigInt(MONEY_SCALE - decimals);
+    return new Money(divideRounded(this.units, step) * step);
+  }
+
+  negate(): Money {
+    return new Money(-this.units);
+  }
+
+  abs(): Money {
+    return this.units < BigInt(0) ? this.negate() : this;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  isPositive(): boolean {
+    return this.units > BigInt(0);
+  }
+
+  compare(other: Money): number {
+    if (this.units === other.units) return 0;
+    return this.units < other.units ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.units === other.units;
+  }
+
+  toUnits(): bigint {
+    return this.units;
+  }
+
+  /**
+   * Formats with exactly eight decimal places, e.g. "-30.25000000".
+   */
+  toString(): string {
+    const negative = this.units < BigInt(0);
+    const magnitude = negative ? -this.units : this.units;
+    const whole = magnitude / SCALE_FACTOR;
+    const fraction = (magnitude % SCALE_FACTOR).toString().padStart(MONEY_SCALE, "0");
+    return `${negative ? "-" : ""}${whole}.${fraction}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+function divideRounded(numerator: bigint, divisor: bigint): bigint {
+  const negative = numerator < BigInt(0);
+  const magnitude = negative ? -numerator : numerator;
+  const quotient = (magnitude + divisor / BigInt(2)) / divisor;
+  return negative ? -quotient : quotient;
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Ledger, OutboxDispatcher, type LedgerEvent } from "./index";
+import { InMemoryStorage } from "./storage";
+
+describe("OutboxDispatcher", () => {
+  const tenantId = "tenant-001";
+  let storage: InMemoryStorage;
+  let ledger: Ledger;
+  let clock: Date;
+  let dispatcher: OutboxDispatcher;
+
+  const credit = (accountId: string, key: string) =>
+    ledger.recordEvent({ accountId, eventType: "CREDIT", amount: "10.00", currency: "USD", idempotencyKey: key });
+
+  const advance = (ms: number) => {
+    clock = new Date(clock.getTime() + ms);
+  };
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+    ledger = new Ledger({ tenantId }, storage);
+    clock = new Date(Date.now() + 60000);
+    dispatcher = new OutboxDispatcher(storage, {
+      tenantId,
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      now: () => clock,
+    });
+  });
+
+  it("should write one outbox entry per event in the same transaction", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    const event = await credit(account.id, "credit-001");
+
+    const pending = await storage.getOutboxEntries(tenantId, "pending");
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ eventId: event.id, accountId: account.id, sequenceNumber: 1 });
+
+    vi.spyOn(storage, "createAuditEvent").mockRejectedValueOnce(new Error("audit store down"));
+    await expect(credit(account.id, "credit-002")).rejects.toThrow("audit store down");
+    expect(await storage.getOutboxEntries(tenantId, "pending")).toHaveLength(1);
+  });
+
+  it("should keep deliveries made while a failing transaction was open", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    const first = await credit(account.id, "credit-001");
+    dispatcher.subscribe("wallet-cache", async () => {});
+
+    vi.spyOn(storage, "createAuditEvent").mockImplementationOnce(async () => {
+      await dispatcher.dispatchOnce();
+      throw new Error("audit store down");
+    });
+    await expect(credit(account.id, "credit-002")).rejects.toThrow("audit store down");
+
+    const delivered = await storage.getOutboxEntries(tenantId, "delivered");
+    expect(delivered.map((e) => e.eventId)).toEqual([first.id]);
+    expect(await storage.getOutboxEntries(tenantId, "pending")).toEqual([]);
+  });
+
+  it("should deliver events to every handler and mark them delivered", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    await credit(account.id, "credit-001");
+    await credit(account.id, "credit-002");
+
+    const cache: string[] = [];
+    const notifications: string[] = [];
+    dispatcher.subscribe("wallet-cache", async (event) => {
+      cache.push(event.idempotencyKey);
+    });
+    dispatcher.subscribe("notifications", async (event) => {
+      notifications.push(event.idempotencyKey);
+    });
+
+    expect(await dispatcher.dispatchOnce()).toEqual({ delivered: 2, retried: 0, deadLettered: 0 });
+    expect(cache).toEqual(["credit-001", "credit-002"]);
+    expect(notifications).toEqual(["credit-001", "credit-002"]);
+    expect(await storage.getOutboxEntries(tenantId, "delivered")).toHaveLength(2);
+
+    expect(await dispatcher.dispatchOnce()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+  });
+
+  it("should leave entries pending until a handler subscribes", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    await credit(account.id, "credit-001");
+
+    expect(await dispatcher.dispatchOnce()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+    expect(await storage.getOutboxEntries(tenantId, "pending")).toHaveLength(1);
+
+    const received: string[] = [];
+    dispatcher.subscribe("late-subscriber", async (event) => {
+      received.push(event.idempotencyKey);
+    });
+    expect(await dispatcher.dispatchOnce()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(received).toEqual(["credit-001"]);
+  });
+
+  it("should retry with exponential backoff", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    await credit(account.id, "credit-001");
+
+    let failures = 2;
+    const handler = vi.fn(async () => {
+      if (failures-- > 0) throw new Error("cache unavailable");
+    });
+    dispatcher.subscribe("wallet-cache", handler);
+
+    expect(await dispatcher.dispatchOnce()).toMatchObject({ retried: 1 });
+    const [entry] = await storage.getOutboxEntries(tenantId, "pending");
+    expect(entry.lastError).toBe("cache unavailable");
+    expect(entry.nextAttemptAt).toEqual(new Date(clock.getTime() + 1000));
+
+    advance(999);
+    expect(await dispatcher.dispatchOnce()).toMatchObject({ retried: 0, delivered: 0 });
+    advance(1);
+    expect(await dispatcher.dispatchOnce()).toMatchObject({ retried: 1 });
+    advance(1999);
+    expect(await dispatcher.dispatchOnce()).toMatchObject({ retried: 0, delivered: 0 });
+    advance(1);
+    expect(await dispatcher.dispatchOnce()).toMatchObject({ delivered: 1 });
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it("should hold back an account's later events until its head is delivered", async () => {
+    const cash = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    const wallet = await ledger.openAccount({ accountType: "WALLET", currency: "USD" });
+    await credit(cash.id, "cash-1");
+    await credit(cash.id, "cash-2");
+    await credit(wallet.id, "wallet-1");
+
+    const seen: string[] = [];
+    let failCash = true;
+    dispatcher.subscribe("recorder", async (event: LedgerEvent) => {
+      if (event.idempotencyKey === "cash-1" && failCash) throw new Error("boom");
+      seen.push(event.idempotencyKey);
+    });
+
+    await dispatcher.dispatchOnce();
+    expect(seen).toEqual(["wallet-1"]);
+
+    failCash = false;
+    advance(1000);
+    await dispatcher.dispatchOnce();
+    expect(seen).toEqual(["wallet-1", "cash-1", "cash-2"]);
+  });
+
+  it("should dead-letter entries after the last attempt and let them be redelivered", async () => {
+    const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+    await credit(account.id, "credit-001");
+    await credit(account.id, "credit-002");
+
+    let healthy = false;
+    const seen: string[] = [];
+    dispatcher.subscribe("recorder", async (event) => {
+      if (!healthy && event.idempotencyKey === "credit-001") throw new Error("poison");
+      seen.push(event.idempotencyKey);
+    });
+
+    let deadLettered = 0;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      deadLettered += (await dispatcher.dispatchOnce()).deadLettered;
+      advance(60000);
+    }
+    expect(deadLettered).toBe(1);
+    expect(seen).toEqual(["credit-002"]);
+
+    const [dead] = await dispatcher.getDeadLetters();
+    expect(dead).toMatchObject({ attempts: 3, lastError: "poison" });
+
+    healthy = true;
+    await dispatcher.redeliver(dead.id);
+    await dispatcher.dispatchOnce();
+    expect(seen).toEqual(["credit-002", "credit-001"]);
+    expect(await dispatcher.getDeadLetters()).toEqual([]);
+  });
+
+  it("should reject duplicate handler names and unknown dead letters", async () => {
+    dispatcher.subscribe("cache", async () => undefined);
+    expect(() => dispatcher.subscribe("cache", async () => undefined)).toThrow(
+      expect.objectContaining({ code: "HANDLER_EXISTS" })
+    );
+    await expect(dispatcher.redeliver("missing")).rejects.toMatchObject({ code: "OUTBOX_ENTRY_NOT_FOUND" });
+  });
+});
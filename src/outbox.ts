@@ -0,0 +1,188 @@
+import { LedgerError } from "./errors";
+import type { LedgerEvent, LedgerStorage, OutboxEntry } from "./index";
+
+export type OutboxHandler = (event: LedgerEvent, entry: OutboxEntry) => Promise<void>;
+
+export interface OutboxDispatcherOptions {
+  tenantId: string;
+  /** Delivery attempts before an entry is dead-lettered. Defaults to 5. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each further failure. Defaults to 1000 ms. */
+  baseDelayMs?: number;
+  /** Upper bound on the retry delay. Defaults to 60000 ms. */
+  maxDelayMs?: number;
+  /** Entries fetched per storage round trip. Defaults to 100. */
+  batchSize?: number;
+  /** Clock used for scheduling; injectable for tests. */
+  now?: () => Date;
+}
+
+export interface DispatchResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Delivers outbox entries to every registered handler at least once. An
+ * account's entries are delivered strictly in sequence order: a failing entry
+ * holds back the rest of its account until it succeeds or is dead-lettered.
+ * Run one dispatcher per tenant; handlers must tolerate redelivery.
+ */
+export class OutboxDispatcher {
+  private handlers = new Map<string, OutboxHandler>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<DispatchResult> | null = null;
+
+  constructor(
+    private readonly storage: LedgerStorage,
+    private readonly options: OutboxDispatcherOptions
+  ) {
+    if (!options.tenantId) {
+      throw new LedgerError("Tenant ID is required", "INVALID_CONFIG");
+    }
+  }
+
+  subscribe(name: string, handler: OutboxHandler): void {
+    if (this.handlers.has(name)) {
+      throw new LedgerError(`Outbox handler ${name} is already registered`, "HANDLER_EXISTS", { name });
+    }
+    this.handlers.set(name, handler);
+  }
+
+  unsubscribe(name: string): void {
+    this.handlers.delete(name);
+  }
+
+  /**
+   * Drains every entry that is due now. Entries that fail are rescheduled with
+   * exponential backoff and do not block other accounts. With no handler
+   * subscribed nothing is dispatched, so entries wait for the first one.
+   */
+  async dispatchOnce(): Promise<DispatchResult> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /** Polls every `intervalMs` until `stop` is called. */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.dispatchOnce()
+        .catch(() => undefined)
+        .finally(() => {
+          if (this.timer) {
+            this.timer = setTimeout(tick, intervalMs);
+            this.timer.unref?.();
+          }
+        });
+    };
+    this.timer = setTimeout(tick, intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getDeadLetters(): Promise<OutboxEntry[]> {
+    return this.storage.getOutboxEntries(this.options.tenantId, "dead_letter");
+  }
+
+  /**
+   * Returns a dead-lettered entry to the queue with a fresh attempt budget.
+   * Later entries of the account may already have been delivered.
+   */
+  async redeliver(entryId: string): Promise<OutboxEntry> {
+    const entry = (await this.getDeadLetters()).find((e) => e.id === entryId);
+    if (!entry) {
+      throw new LedgerError(
+        `Outbox entry ${entryId} is not dead-lettered`,
+        "OUTBOX_ENTRY_NOT_FOUND",
+        { entryId }
+      );
+    }
+
+    return this.storage.updateOutboxEntry(this.options.tenantId, entryId, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: this.now(),
+      lastError: null,
+      deliveredAt: null,
+    });
+  }
+
+  private async drain(): Promise<DispatchResult> {
+    const result: DispatchResult = { delivered: 0, retried: 0, deadLettered: 0 };
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (this.handlers.size === 0) {
+      return result;
+    }
+
+    for (;;) {
+      const due = await this.storage.getDueOutboxEntries(this.options.tenantId, this.now(), batchSize);
+      if (due.length === 0) {
+        return result;
+      }
+      for (const entry of due) {
+        const outcome = await this.deliver(entry);
+        result[outcome]++;
+      }
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<keyof DispatchResult> {
+    try {
+      const event = await this.storage.getEventById(this.options.tenantId, entry.eventId);
+      if (!event) {
+        throw new Error(`Event ${entry.eventId} not found`);
+      }
+      for (const handler of this.handlers.values()) {
+        await handler(event, entry);
+      }
+    } catch (error) {
+      return this.recordFailure(entry, error);
+    }
+
+    await this.storage.updateOutboxEntry(this.options.tenantId, entry.id, {
+      status: "delivered",
+      attempts: entry.attempts + 1,
+      nextAttemptAt: entry.nextAttemptAt,
+      lastError: null,
+      deliveredAt: this.now(),
+    });
+    return "delivered";
+  }
+
+  private async recordFailure(entry: OutboxEntry, error: unknown): Promise<keyof DispatchResult> {
+    const attempts = entry.attempts + 1;
+    const deadLetter = attempts >= (this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    const baseDelay = this.options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    const delay = Math.min(baseDelay * 2 ** (attempts - 1), this.options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS);
+
+    await this.storage.updateOutboxEntry(this.options.tenantId, entry.id, {
+      status: deadLetter ? "dead_letter" : "pending",
+      attempts,
+      nextAttemptAt: new Date(this.now().getTime() + delay),
+      lastError: error instanceof Error ? error.message : String(error),
+      deliveredAt: null,
+    });
+    return deadLetter ? "deadLettered" : "retried";
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Ledger, Money, OutboxDispatcher, ProjectionEngine, type ProjectionDefinition } from "./index";
+import { InMemoryStorage } from "./storage";
+
+type VolumeByType = Record<string, string>;
+
+describe("ProjectionEngine", () => {
+  const tenantId = "tenant-001";
+  let storage: InMemoryStorage;
+  let ledger: Ledger;
+  let engine: ProjectionEngine;
+  let cashId: string;
+  let walletId: string;
+
+  const volumeByEventType: ProjectionDefinition<VolumeByType> = {
+    name: "volume-by-event-type",
+    initialState: () => ({}),
+    reduce: (state, event) => ({
+      ...state,
+      [event.eventType]: Money.parse(state[event.eventType] ?? "0")
+        .add(Money.parse(event.amount).abs())
+        .toString(),
+    }),
+  };
+
+  const credit = (accountId: string, amount: string, key: string) =>
+    ledger.recordEvent({ accountId, eventType: "CREDIT", amount, currency: "USD", idempotencyKey: key });
+
+  beforeEach(async () => {
+    storage = new InMemoryStorage();
+    ledger = new Ledger({ tenantId }, storage);
+    engine = new ProjectionEngine(storage, { tenantId, batchSize: 2 });
+    cashId = (await ledger.openAccount({ accountType: "CASH", currency: "USD" })).id;
+    walletId = (await ledger.openAccount({ accountType: "WALLET", currency: "USD" })).id;
+    await credit(cashId, "10.00", "c1");
+    await credit(cashId, "20.00", "c2");
+    await credit(cashId, "30.00", "c3");
+    await credit(walletId, "5.00", "w1");
+  });
+
+  it("should replay existing events from the start on startup", async () => {
+    engine.register(volumeByEventType);
+    await engine.start();
+
+    expect(await engine.getState(volumeByEventType.name)).toEqual({ CREDIT: "65.00000000" });
+  });
+
+  it("should resume from its checkpoint", async () => {
+    engine.register(volumeByEventType);
+    await engine.start();
+    await credit(walletId, "1.00", "w2");
+
+    let reduced = 0;
+    const restarted = new ProjectionEngine(storage, { tenantId });
+    restarted.register({
+      ...volumeByEventType,
+      reduce: (state, event) => {
+        reduced++;
+        return volumeByEventType.reduce(state, event);
+      },
+    });
+    await restarted.start();
+
+    expect(reduced).toBe(1);
+    expect(await restarted.getState(volumeByEventType.name)).toEqual({ CREDIT: "66.00000000" });
+  });
+
+  it("should stay current through the outbox", async () => {
+    engine.register(volumeByEventType);
+    await engine.start();
+
+    const dispatcher = new OutboxDispatcher(storage, { tenantId });
+    dispatcher.subscribe("projections", engine.outboxHandler());
+    await credit(cashId, "100.00", "c4");
+    await dispatcher.dispatchOnce();
+
+    expect(await engine.getState(volumeByEventType.name)).toEqual({ CREDIT: "165.00000000" });
+  });
+
+  it("should replay from scratch when the version changes", async () => {
+    engine.register(volumeByEventType);
+    await engine.start();
+
+    const upgraded = new ProjectionEngine(storage, { tenantId });
+    upgraded.register({
+      ...volumeByEventType,
+      version: 2,
+      reduce: (state, event) => ({ ...state, [event.accountId]: "seen" }),
+    });
+    await upgraded.start();
+
+    expect(await upgraded.getState(volumeByEventType.name)).toEqual({ [cashId]: "seen", [walletId]: "seen" });
+  });
+
+  it("should verify stored state against a rebuild", async () => {
+    engine.register(volumeByEventType);
+    await engine.start();
+
+    const healthy = await engine.verify(volumeByEventType.name);
+    expect(healthy).toMatchObject({ valid: true, eventCount: 4 });
+
+    const record = (await storage.getProjection(tenantId, volumeByEventType.name))!;
+    await storage.saveProjection({ ...record, state: JSON.stringify({ CREDIT: "1.00000000" }) });
+
+    const drifted = await engine.verify(volumeByEventType.name);
+    expect(drifted.valid).toBe(false);
+    expect(drifted.rebuilt).toEqual({ CREDIT: "65.00000000" });
+
+    await engine.rebuild(volumeByEventType.name);
+    expect((await engine.verify(volumeByEventType.name)).valid).toBe(true);
+  });
+
+  it("should reject duplicate and unknown projections", async () => {
+    engine.register(volumeByEventType);
+    expect(() => engine.register(volumeByEventType)).toThrow(
+      expect.objectContaining({ code: "PROJECTION_EXISTS" })
+    );
+    await expect(engine.getState("missing")).rejects.toMatchObject({ code: "PROJECTION_NOT_FOUND" });
+  });
+});
@@ -0,0 +1,211 @@
+import { LedgerError } from "./errors";
+import type { LedgerEvent, LedgerStorage, OutboxEntry, ProjectionRecord } from "./index";
+
+/**
+ * A read model folded from ledger events. State must survive a JSON round
+ * trip. Each account's events arrive in sequence order, but accounts are
+ * interleaved arbitrarily, so `reduce` must not depend on cross-account order.
+ */
+export interface ProjectionDefinition<S> {
+  name: string;
+  /** Bump to discard stored state and replay from the start. Defaults to 1. */
+  version?: number;
+  initialState: () => S;
+  reduce: (state: S, event: LedgerEvent) => S;
+}
+
+export interface ProjectionEngineOptions {
+  tenantId: string;
+  /** Events read per storage round trip during replay. Defaults to 500. */
+  batchSize?: number;
+}
+
+export interface ProjectionVerification {
+  name: string;
+  valid: boolean;
+  /** Events covered by the stored checkpoint. */
+  eventCount: number;
+  stored: unknown;
+  rebuilt: unknown;
+}
+
+type Checkpoint = Record<string, number>;
+
+interface LoadedProjection {
+  state: unknown;
+  checkpoint: Checkpoint;
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Maintains registered projections: replays them from sequence 0 when they
+ * have no stored state, applies new events on `catchUp`, and checkpoints the
+ * last applied sequence per account so work resumes after a restart.
+ */
+export class ProjectionEngine {
+  private definitions = new Map<string, ProjectionDefinition<unknown>>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: LedgerStorage,
+    private readonly options: ProjectionEngineOptions
+  ) {
+    if (!options.tenantId) {
+      throw new LedgerError("Tenant ID is required", "INVALID_CONFIG");
+    }
+  }
+
+  register<S>(definition: ProjectionDefinition<S>): void {
+    if (this.definitions.has(definition.name)) {
+      throw new LedgerError(
+        `Projection ${definition.name} is already registered`,
+        "PROJECTION_EXISTS",
+        { name: definition.name }
+      );
+    }
+    this.definitions.set(definition.name, definition as ProjectionDefinition<unknown>);
+  }
+
+  /** Brings every registered projection up to date, replaying any without stored state. */
+  async start(): Promise<void> {
+    for (const name of this.definitions.keys()) {
+      await this.catchUp(name);
+    }
+  }
+
+  /** Applies events recorded since the projection's checkpoint. */
+  async catchUp(name: string, accountId?: string): Promise<void> {
+    return this.serialize(async () => {
+      const definition = this.requireDefinition(name);
+      const loaded = await this.load(definition);
+      await this.apply(definition, loaded, accountId);
+      await this.save(definition, loaded);
+    });
+  }
+
+  /** Discards stored state and replays the projection from sequence 0. */
+  async rebuild(name: string): Promise<void> {
+    return this.serialize(async () => {
+      const definition = this.requireDefinition(name);
+      const loaded: LoadedProjection = { state: definition.initialState(), checkpoint: {} };
+      await this.apply(definition, loaded);
+      await this.save(definition, loaded);
+    });
+  }
+
+  async getState<S>(name: string): Promise<S> {
+    const definition = this.requireDefinition(name);
+    return (await this.load(definition)).state as S;
+  }
+
+  /**
+   * Replays the projection in memory up to its stored checkpoint and compares
+   * the result with the stored state.
+   */
+  async verify(name: string): Promise<ProjectionVerification> {
+    const definition = this.requireDefinition(name);
+    const stored = await this.load(definition);
+    const rebuilt: LoadedProjection = { state: definition.initialState(), checkpoint: {} };
+    await this.apply(definition, rebuilt, undefined, stored.checkpoint);
+
+    return {
+      name,
+      valid:
+        canonicalJson(stored.state) === canonicalJson(rebuilt.state) &&
+        canonicalJson(stored.checkpoint) === canonicalJson(rebuilt.checkpoint),
+      eventCount: Object.values(stored.checkpoint).reduce((total, sequence) => total + sequence, 0),
+      stored: stored.state,
+      rebuilt: rebuilt.state,
+    };
+  }
+
+  /**
+   * Outbox handler that keeps every projection current with the event's
+   * account: `dispatcher.subscribe("projections", engine.outboxHandler())`.
+   */
+  outboxHandler(): (event: LedgerEvent, entry: OutboxEntry) => Promise<void> {
+    return async (event) => {
+      for (const name of this.definitions.keys()) {
+        await this.catchUp(name, event.accountId);
+      }
+    };
+  }
+
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private requireDefinition(name: string): ProjectionDefinition<unknown> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new LedgerError(`Projection ${name} is not registered`, "PROJECTION_NOT_FOUND", { name });
+    }
+    return definition;
+  }
+
+  private async load(definition: ProjectionDefinition<unknown>): Promise<LoadedProjection> {
+    const record = await this.storage.getProjection(this.options.tenantId, definition.name);
+    if (!record || record.version !== (definition.version ?? 1)) {
+      return { state: definition.initialState(), checkpoint: {} };
+    }
+    return { state: JSON.parse(record.state), checkpoint: JSON.parse(record.checkpoint) };
+  }
+
+  private async save(definition: ProjectionDefinition<unknown>, loaded: LoadedProjection): Promise<ProjectionRecord> {
+    return this.storage.saveProjection({
+      tenantId: this.options.tenantId,
+      name: definition.name,
+      version: definition.version ?? 1,
+      state: JSON.stringify(loaded.state),
+      checkpoint: JSON.stringify(loaded.checkpoint),
+    });
+  }
+
+  /**
+   * Folds events after `loaded.checkpoint` into `loaded.state`, for one
+   * account or all of them, stopping at `until` when given.
+   */
+  private async apply(
+    definition: ProjectionDefinition<unknown>,
+    loaded: LoadedProjection,
+    accountId?: string,
+    until?: Checkpoint
+  ): Promise<void> {
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const accountIds = accountId
+      ? [accountId]
+      : (await this.storage.getAccounts(this.options.tenantId)).map((a) => a.id);
+
+    for (const id of accountIds) {
+      const limit = until ? until[id] ?? 0 : undefined;
+      for (;;) {
+        const from = (loaded.checkpoint[id] ?? 0) + 1;
+        if (limit !== undefined && from > limit) break;
+
+        const events = await this.storage.getEventsInRange(
+          this.options.tenantId,
+          id,
+          { fromSequence: from, toSequence: limit },
+          batchSize
+        );
+        if (events.length === 0) break;
+
+        for (const event of events) {
+          loaded.state = definition.reduce(loaded.state, event);
+          loaded.checkpoint[id] = event.sequenceNumber;
+        }
+      }
+    }
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  Ledger,
+  ReconciliationEngine,
+  parseExternalLinesCsv,
+  parseExternalLinesJson,
+  type ExternalLine,
+} from "./index";
+import { InMemoryStorage } from "./storage";
+
+describe("reconciliation", () => {
+  const tenantId = "tenant-001";
+  let storage: InMemoryStorage;
+  let ledger: Ledger;
+  let engine: ReconciliationEngine;
+  let bankId: string;
+
+  const at = (iso: string) => vi.setSystemTime(new Date(iso));
+  const record = (key: string, amount: string, sourceRef?: string) =>
+    ledger.recordEvent({
+      accountId: bankId,
+      eventType: amount.startsWith("-") ? "DEBIT" : "CREDIT",
+      amount,
+      currency: "NGN",
+      idempotencyKey: key,
+      sourceType: sourceRef ? "payment" : undefined,
+      sourceRef,
+    });
+  const line = (externalId: string, amount: string, date: string, extra?: Partial<ExternalLine>): ExternalLine => ({
+    externalId,
+    amount,
+    date: new Date(date),
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    at("2026-03-01T09:00:00Z");
+    storage = new InMemoryStorage();
+    ledger = new Ledger({ tenantId }, storage);
+    engine = new ReconciliationEngine(storage, { tenantId, dateWindowMs: 2 * 24 * 60 * 60 * 1000 });
+    bankId = (await ledger.openAccount({ accountType: "BANK", currency: "NGN" })).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("ingestion", () => {
+    it("should read CSV with LF line endings, quoting and custom column names", () => {
+      const csv = [
+        "Txn Id,Amount,Value Date,Narration,Ref",
+        'bk-1,1500.00,2026-03-02T00:00:00Z,"Transfer, from ""Ada""",pay-1',
+        "bk-2,-20.50,2026-03-03T00:00:00Z,,",
+        "",
+      ].join("\n");
+
+      const lines = parseExternalLinesCsv(csv, {
+        externalId: "Txn Id",
+        amount: "Amount",
+        date: "Value Date",
+        description: "Narration",
+        reference: "Ref",
+      });
+
+      expect(lines).toEqual([
+        {
+          externalId: "bk-1",
+          amount: "1500.00",
+          date: new Date("2026-03-02T00:00:00Z"),
+          description: 'Transfer, from "Ada"',
+          reference: "pay-1",
+        },
+        { externalId: "bk-2", amount: "-20.50", date: new Date("2026-03-03T00:00:00Z") },
+      ]);
+    });
+
+    it("should read JSON lines", () => {
+      const lines = parseExternalLinesJson(
+        JSON.stringify([{ externalId: "psp-1", amount: 75, date: "2026-03-02", idempotencyKey: "k-1" }])
+      );
+
+      expect(lines).toEqual([
+        { externalId: "psp-1", amount: "75", date: new Date("2026-03-02"), idempotencyKey: "k-1" },
+      ]);
+    });
+
+    it("should reject malformed files", () => {
+      expect(() => parseExternalLinesCsv("id,amount\r\n1,2\r\n")).toThrow(
+        expect.objectContaining({ code: "INVALID_STATEMENT_FILE" })
+      );
+      expect(() => parseExternalLinesCsv("external_id,amount,date\r\nx,1.2.3,2026-03-02\r\n")).toThrow(
+        expect.objectContaining({ code: "INVALID_STATEMENT_FILE", details: { line: 1, field: "amount" } })
+      );
+      expect(() => parseExternalLinesJson("{")).toThrow(expect.objectContaining({ code: "INVALID_STATEMENT_FILE" }));
+      expect(() => parseExternalLinesJson([{ externalId: "x", amount: "1", date: "soon" }])).toThrow(
+        expect.objectContaining({ code: "INVALID_STATEMENT_FILE" })
+      );
+    });
+  });
+
+  it("should match by idempotency key or reference first, then by amount within the date window", async () => {
+    const byKey = await record("ord-1", "100.00");
+    const byRef = await record("ord-2", "250.00", "pay-77");
+    const short = await record("ord-3", "40.00", "pay-78");
+    at("2026-03-02T15:00:00Z");
+    const byAmount = await record("ord-4", "60.00");
+    const sameAmountEarlier = await record("ord-5", "60.00");
+    at("2026-03-09T00:00:00Z");
+    const outsideWindow = await record("ord-6", "10.00");
+
+    const report = await engine.reconcile({
+      accountId: bankId,
+      lines: [
+        line("bk-1", "100.00", "2026-03-01T00:00:00Z", { idempotencyKey: "ord-1" }),
+        line("bk-2", "250.00", "2026-03-01T00:00:00Z", { reference: "pay-77" }),
+        line("bk-3", "45.00", "2026-03-01T00:00:00Z", { reference: "pay-78" }),
+        line("bk-4", "60.00", "2026-03-03T00:00:00Z"),
+        line("bk-5", "10.00", "2026-03-05T00:00:00Z"),
+      ],
+    });
+
+    expect(report.matched.map((m) => [m.line.externalId, m.event.id, m.method])).toEqual([
+      ["bk-1", byKey.id, "reference"],
+      ["bk-2", byRef.id, "reference"],
+      ["bk-4", byAmount.id, "amount_date"],
+    ]);
+    expect(report.amountMismatch).toEqual([
+      expect.objectContaining({ event: short, method: "reference", difference: "5.00000000" }),
+    ]);
+    expect(report.unmatchedExternal.map((l) => l.externalId)).toEqual(["bk-5"]);
+    expect(report.unmatchedLedger.map((e) => e.id)).toEqual([sameAmountEarlier.id]);
+    expect(report.unmatchedLedger).not.toContainEqual(outsideWindow);
+
+    const decisions = await engine.getDecisions(bankId);
+    expect(decisions.map((d) => [d.externalId, d.status, d.eventId])).toEqual([
+      ["bk-1", "matched", byKey.id],
+      ["bk-2", "matched", byRef.id],
+      ["bk-3", "amount_mismatch", short.id],
+      ["bk-4", "matched", byAmount.id],
+      ["bk-5", "unmatched_external", null],
+    ]);
+    expect(decisions.every((d) => d.runId === report.runId)).toBe(true);
+
+    const [audit] = storage.getAuditEvents().filter((e) => e.entityType === "reconciliation");
+    expect(audit).toMatchObject({ entityId: bankId, action: "RECONCILIATION_RUN" });
+    expect(JSON.parse(audit.payload!)).toMatchObject({ lines: 5, matched: 3, amountMismatch: 1 });
+  });
+
+  it("should not match an event already claimed by a line from an earlier run", async () => {
+    const event = await record("ord-1", "100.00");
+    await engine.reconcile({ accountId: bankId, lines: [line("bk-1", "100.00", "2026-03-01T00:00:00Z")] });
+
+    const report = await engine.reconcile({
+      accountId: bankId,
+      lines: [line("bk-2", "100.00", "2026-03-01T00:00:00Z", { idempotencyKey: "ord-1" })],
+    });
+
+    expect(report.matched).toEqual([]);
+    expect(report.unmatchedExternal.map((l) => l.externalId)).toEqual(["bk-2"]);
+    expect((await engine.getDecisions(bankId)).find((d) => d.externalId === "bk-1")?.eventId).toBe(event.id);
+  });
+
+  it("should record manual overrides as audit events and keep them on later runs", async () => {
+    const fee = await record("fee-1", "-1.50");
+    const lines = [line("bk-fee", "-1.60", "2026-03-01T00:00:00Z")];
+    await engine.reconcile({ accountId: bankId, lines });
+
+    const decision = await engine.overrideMatch(
+      bankId,
+      "bk-fee",
+      { eventId: fee.id, reason: "bank rounded the fee" },
+      { actorId: "ops-1", requestId: "req-9" }
+    );
+    expect(decision).toMatchObject({ eventId: fee.id, status: "matched", method: "manual", decidedBy: "ops-1" });
+
+    const audit = storage.getAuditEvents().find((e) => e.action === "RECONCILIATION_OVERRIDDEN")!;
+    expect(audit).toMatchObject({ entityType: "reconciliation", entityId: bankId, actorId: "ops-1", requestId: "req-9" });
+    expect(JSON.parse(audit.payload!)).toEqual({
+      externalId: "bk-fee",
+      previousEventId: null,
+      eventId: fee.id,
+      previousStatus: "unmatched_external",
+      status: "matched",
+      reason: "bank rounded the fee",
+    });
+
+    const rerun = await engine.reconcile({ accountId: bankId, lines });
+    expect(rerun.matched).toEqual([
+      expect.objectContaining({ event: fee, method: "manual", difference: "-0.10000000" }),
+    ]);
+    expect((await engine.getDecisions(bankId))[0]).toMatchObject({ reason: "bank rounded the fee", decidedBy: "ops-1" });
+  });
+
+  it("should reject invalid overrides", async () => {
+    const event = await record("ord-1", "100.00");
+    const other = await ledger.openAccount({ accountType: "BANK", currency: "NGN" });
+    await engine.reconcile({
+      accountId: bankId,
+      lines: [line("bk-1", "100.00", "2026-03-01T00:00:00Z"), line("bk-2", "7.00", "2026-03-01T00:00:00Z")],
+    });
+
+    await expect(engine.overrideMatch(bankId, "bk-9", { eventId: null, reason: "x" })).rejects.toMatchObject({
+      code: "RECONCILIATION_LINE_NOT_FOUND",
+    });
+    await expect(engine.overrideMatch(bankId, "bk-2", { eventId: event.id, reason: "x" })).rejects.toMatchObject({
+      code: "EVENT_ALREADY_MATCHED",
+      details: { eventId: event.id, externalId: "bk-1" },
+    });
+    await expect(engine.overrideMatch(other.id, "bk-1", { eventId: null, reason: "x" })).rejects.toMatchObject({
+      code: "RECONCILIATION_LINE_NOT_FOUND",
+    });
+    await expect(
+      engine.reconcile({
+        accountId: bankId,
+        lines: [line("bk-1", "1.00", "2026-03-01T00:00:00Z"), line("bk-1", "2.00", "2026-03-01T00:00:00Z")],
+      })
+    ).rejects.toMatchObject({ code: "DUPLICATE_EXTERNAL_LINE" });
+  });
+});
@@ -0,0 +1,483 @@
+import { v4 as uuidv4 } from "uuid";
+import { emitAuditEvent } from "./audit";
+import { LedgerError } from "./errors";
+import { Money } from "./money";
+import { parseCsvRecords } from "./statement-export";
+import type {
+  LedgerEvent,
+  LedgerStorage,
+  OperationContext,
+  ReconciliationDecision,
+  ReconciliationMethod,
+  ReconciliationStatus,
+} from "./index";
+
+/** One line of a bank or PSP settlement report, signed from the account's side. */
+export interface ExternalLine {
+  /** The provider's id for the line, unique within the account. */
+  externalId: string;
+  amount: string;
+  date: Date;
+  currency?: string;
+  /** Compared with the event's idempotency key. */
+  idempotencyKey?: string;
+  /** Compared with the event's `sourceRef`. */
+  reference?: string;
+  description?: string;
+}
+
+/** CSV header names for each line field. */
+export type ExternalLineColumns = Partial<Record<keyof ExternalLine, string>>;
+
+export interface ReconciliationEngineOptions {
+  tenantId: string;
+  /** Largest gap between a line's date and an event's value date for an amount match. Defaults to 3 days. */
+  dateWindowMs?: number;
+}
+
+export interface ReconcileParams {
+  accountId: string;
+  lines: ExternalLine[];
+  /**
+   * Statement period. Unmatched events with a value date inside it are
+   * reported; defaults to the span of the lines.
+   */
+  fromDate?: Date;
+  toDate?: Date;
+  actorId?: string;
+}
+
+export interface ReconciliationMatch {
+  line: ExternalLine;
+  event: LedgerEvent;
+  method: ReconciliationMethod;
+  /** External amount minus ledger amount. */
+  difference: string;
+}
+
+export interface ReconciliationReport {
+  runId: string;
+  accountId: string;
+  matched: ReconciliationMatch[];
+  amountMismatch: ReconciliationMatch[];
+  unmatchedLedger: LedgerEvent[];
+  unmatchedExternal: ExternalLine[];
+}
+
+export interface OverrideMatchParams {
+  /** The event to match the line to, or null to leave the line unmatched. */
+  eventId: string | null;
+  reason: string;
+  actorId?: string;
+}
+
+interface Outcome {
+  line: ExternalLine;
+  event: LedgerEvent | null;
+  status: ReconciliationStatus;
+  method: ReconciliationMethod | null;
+  previous?: ReconciliationDecision;
+}
+
+const DEFAULT_DATE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+/** Events sharing one source reference considered for a reference match. */
+const REFERENCE_CANDIDATE_LIMIT = 50;
+
+const DEFAULT_COLUMNS: Record<keyof ExternalLine, string> = {
+  externalId: "external_id",
+  amount: "amount",
+  date: "date",
+  currency: "currency",
+  idempotencyKey: "idempotency_key",
+  reference: "reference",
+  description: "description",
+};
+
+/**
+ * Reads external lines from CSV with a header row. Columns default to
+ * `external_id,amount,date,currency,idempotency_key,reference,description`;
+ * only the first three are required.
+ */
+export function parseExternalLinesCsv(csv: string, columns?: ExternalLineColumns): ExternalLine[] {
+  const [header, ...records] = parseCsvRecords(csv);
+  if (!header) {
+    throw new LedgerError("External statement CSV is empty", "INVALID_STATEMENT_FILE");
+  }
+
+  const names = { ...DEFAULT_COLUMNS, ...columns };
+  const positions = Object.entries(names).map(([field, name]) => [field, header.indexOf(name)] as const);
+  for (const field of ["externalId", "amount", "date"] as const) {
+    if (!header.includes(names[field])) {
+      throw new LedgerError(
+        `External statement CSV has no ${names[field]} column`,
+        "INVALID_STATEMENT_FILE",
+        { column: names[field] }
+      );
+    }
+  }
+
+  return records
+    .filter((record) => record.length > 1 || record[0] !== "")
+    .map((record, index) =>
+      toExternalLine(
+        Object.fromEntries(positions.filter(([, at]) => at !== -1).map(([field, at]) => [field, record[at]])),
+        index + 1
+      )
+    );
+}
+
+/** Reads external lines from a JSON array of objects shaped like `ExternalLine`. */
+export function parseExternalLinesJson(json: string | unknown): ExternalLine[] {
+  let parsed = json;
+  if (typeof json === "string") {
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new LedgerError("External statement JSON is malformed", "INVALID_STATEMENT_FILE");
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    throw new LedgerError("External statement JSON must be an array of lines", "INVALID_STATEMENT_FILE");
+  }
+  return parsed.map((raw, index) => {
+    if (!raw || typeof raw !== "object") {
+      throw new LedgerError(`External line ${index + 1} is not an object`, "INVALID_STATEMENT_FILE", {
+        line: index + 1,
+      });
+    }
+    return toExternalLine(raw as Record<string, unknown>, index + 1);
+  });
+}
+
+function toExternalLine(raw: Record<string, unknown>, line: number): ExternalLine {
+  const invalid = (field: string) =>
+    new LedgerError(`External line ${line} has an invalid ${field}`, "INVALID_STATEMENT_FILE", { line, field });
+  const optional = (field: keyof ExternalLine): string | undefined => {
+    const value = raw[field];
+    if (value === undefined || value === null || value === "") return undefined;
+    if (typeof value !== "string") throw invalid(field);
+    return value;
+  };
+
+  const externalId = optional("externalId");
+  const amount = typeof raw.amount === "number" && Number.isFinite(raw.amount) ? String(raw.amount) : raw.amount;
+  const date = raw.date instanceof Date ? raw.date : typeof raw.date === "string" ? new Date(raw.date) : undefined;
+  if (!externalId) throw invalid("externalId");
+  if (typeof amount !== "string" || !Money.isValid(amount)) throw invalid("amount");
+  if (!date || Number.isNaN(date.getTime())) throw invalid("date");
+
+  const result: ExternalLine = { externalId, amount, date };
+  for (const field of ["currency", "idempotencyKey", "reference", "description"] as const) {
+    const value = optional(field);
+    if (value !== undefined) result[field] = value;
+  }
+  return result;
+}
+
+/**
+ * Matches external statement lines to an account's ledger events: first by
+ * idempotency key or source reference, then by equal amount with the
+ * closest value date inside the date window. Each line's decision is
+ * stored; manual overrides survive later runs, and an event matched to one
+ * line is never offered to another.
+ */
+export class ReconciliationEngine {
+  constructor(
+    private readonly storage: LedgerStorage,
+    private readonly options: ReconciliationEngineOptions
+  ) {
+    if (!options.tenantId) {
+      throw new LedgerError("Tenant ID is required", "INVALID_CONFIG");
+    }
+    if (options.dateWindowMs !== undefined && !(Number.isFinite(options.dateWindowMs) && options.dateWindowMs >= 0)) {
+      throw new LedgerError("dateWindowMs must be a non-negative number of milliseconds", "INVALID_CONFIG", {
+        dateWindowMs: options.dateWindowMs,
+      });
+    }
+  }
+
+  async reconcile(params: ReconcileParams, context?: OperationContext): Promise<ReconciliationReport> {
+    assertValidLines(params.lines);
+    const window = this.options.dateWindowMs ?? DEFAULT_DATE_WINDOW_MS;
+    const times = params.lines.map((line) => line.date.getTime());
+    const from = params.fromDate ?? (times.length > 0 ? new Date(Math.min(...times)) : undefined);
+    const to = params.toDate ?? (times.length > 0 ? new Date(Math.max(...times)) : undefined);
+
+    return this.storage.transaction(async (tx) => {
+      await this.requireAccount(tx, params.accountId);
+      const runId = uuidv4();
+      const decisions = new Map(
+        (await tx.getReconciliationDecisions(this.options.tenantId, params.accountId)).map((d) => [d.externalId, d])
+      );
+
+      // Events held by lines outside this run, or by manual decisions, are not up for matching.
+      const lineIds = new Set(params.lines.map((line) => line.externalId));
+      const claimed = new Set<string>();
+      for (const decision of decisions.values()) {
+        if (decision.eventId && (!lineIds.has(decision.externalId) || decision.method === "manual")) {
+          claimed.add(decision.eventId);
+        }
+      }
+
+      const candidates = await tx.getEventsInRange(this.options.tenantId, params.accountId, {
+        fromDate: from && new Date(from.getTime() - window),
+        toDate: to && new Date(to.getTime() + window),
+        dateBasis: "value",
+      });
+
+      const outcomes: Outcome[] = [];
+      const pending: ExternalLine[] = [];
+      for (const line of params.lines) {
+        const previous = decisions.get(line.externalId);
+        if (previous?.method === "manual") {
+          const event = previous.eventId
+            ? await tx.getEventById(this.options.tenantId, previous.eventId)
+            : undefined;
+          outcomes.push({ line, event: event ?? null, status: previous.status, method: "manual", previous });
+          continue;
+        }
+
+        const event = await this.findByReference(tx, params.accountId, line, claimed);
+        if (event) {
+          claimed.add(event.id);
+          outcomes.push({
+            line,
+            event,
+            status: amountsAgree(line, event) ? "matched" : "amount_mismatch",
+            method: "reference",
+          });
+        } else {
+          pending.push(line);
+        }
+      }
+
+      for (const line of pending) {
+        const event = findByAmountAndDate(line, candidates, claimed, window);
+        if (event) {
+          claimed.add(event.id);
+          outcomes.push({ line, event, status: "matched", method: "amount_date" });
+        } else {
+          outcomes.push({ line, event: null, status: "unmatched_external", method: null });
+        }
+      }
+
+      await tx.saveReconciliationDecisions(
+        outcomes.map(({ line, event, status, method, previous }) => ({
+          tenantId: this.options.tenantId,
+          accountId: params.accountId,
+          externalId: line.externalId,
+          eventId: event?.id ?? null,
+          status,
+          method,
+          externalAmount: Money.parse(line.amount).toString(),
+          externalDate: line.date,
+          reference: line.reference ?? line.idempotencyKey ?? null,
+          runId,
+          decidedBy: previous?.decidedBy ?? null,
+          reason: previous?.reason ?? null,
+        }))
+      );
+
+      const report: ReconciliationReport = {
+        runId,
+        accountId: params.accountId,
+        matched: [],
+        amountMismatch: [],
+        unmatchedLedger: candidates.filter((event) => {
+          const date = (event.effectiveAt ?? event.createdAt).getTime();
+          return !claimed.has(event.id) && (!from || date >= from.getTime()) && (!to || date <= to.getTime());
+        }),
+        unmatchedExternal: [],
+      };
+      for (const { line, event, status, method } of outcomes) {
+        if (!event || !method || status === "unmatched_external") {
+          report.unmatchedExternal.push(line);
+          continue;
+        }
+        const match: ReconciliationMatch = {
+          line,
+          event,
+          method,
+          difference: Money.parse(line.amount).subtract(Money.parse(event.amount)).toString(),
+        };
+        (status === "matched" ? report.matched : report.amountMismatch).push(match);
+      }
+
+      await emitAuditEvent(tx, this.options.tenantId, {
+        context,
+        entityType: "reconciliation",
+        entityId: params.accountId,
+        action: "RECONCILIATION_RUN",
+        actorId: params.actorId,
+        payload: {
+          runId,
+          lines: params.lines.length,
+          matched: report.matched.length,
+          amountMismatch: report.amountMismatch.length,
+          unmatchedLedger: report.unmatchedLedger.length,
+          unmatchedExternal: report.unmatchedExternal.length,
+        },
+      });
+
+      return report;
+    });
+  }
+
+  /**
+   * Matches a reconciled line to an event by hand, or with `eventId: null`
+   * marks it unmatched. Recorded as a RECONCILIATION_OVERRIDDEN audit event.
+   */
+  async overrideMatch(
+    accountId: string,
+    externalId: string,
+    params: OverrideMatchParams,
+    context?: OperationContext
+  ): Promise<ReconciliationDecision> {
+    return this.storage.transaction(async (tx) => {
+      await this.requireAccount(tx, accountId);
+      const decisions = await tx.getReconciliationDecisions(this.options.tenantId, accountId);
+      const decision = decisions.find((d) => d.externalId === externalId);
+      if (!decision) {
+        throw new LedgerError(
+          `No reconciled line ${externalId} on account ${accountId}`,
+          "RECONCILIATION_LINE_NOT_FOUND",
+          { accountId, externalId }
+        );
+      }
+
+      if (params.eventId !== null) {
+        const event = await tx.getEventById(this.options.tenantId, params.eventId);
+        if (!event || event.accountId !== accountId) {
+          throw new LedgerError(
+            `Event ${params.eventId} not found on account ${accountId}`,
+            "EVENT_NOT_FOUND",
+            { accountId, eventId: params.eventId }
+          );
+        }
+        const holder = decisions.find((d) => d.eventId === params.eventId && d.externalId !== externalId);
+        if (holder) {
+          throw new LedgerError(
+            `Event ${params.eventId} is already matched to line ${holder.externalId}`,
+            "EVENT_ALREADY_MATCHED",
+            { eventId: params.eventId, externalId: holder.externalId }
+          );
+        }
+      }
+
+      const { createdAt, updatedAt, ...unchanged } = decision;
+      const status: ReconciliationStatus = params.eventId !== null ? "matched" : "unmatched_external";
+      const [saved] = await tx.saveReconciliationDecisions([
+        {
+          ...unchanged,
+          eventId: params.eventId,
+          status,
+          method: "manual",
+          decidedBy: params.actorId || context?.actorId || null,
+          reason: params.reason,
+        },
+      ]);
+
+      await emitAuditEvent(tx, this.options.tenantId, {
+        context,
+        entityType: "reconciliation",
+        entityId: accountId,
+        action: "RECONCILIATION_OVERRIDDEN",
+        actorId: params.actorId,
+        payload: {
+          externalId,
+          previousEventId: decision.eventId,
+          eventId: params.eventId,
+          previousStatus: decision.status,
+          status,
+          reason: params.reason,
+        },
+      });
+
+      return saved;
+    });
+  }
+
+  async getDecisions(accountId: string): Promise<ReconciliationDecision[]> {
+    return this.storage.getReconciliationDecisions(this.options.tenantId, accountId);
+  }
+
+  private async requireAccount(tx: LedgerStorage, accountId: string): Promise<void> {
+    const account = await tx.getAccount(this.options.tenantId, accountId);
+    if (!account) {
+      throw new LedgerError(`Account ${accountId} not found`, "ACCOUNT_NOT_FOUND", { accountId });
+    }
+    // Serializes runs and overrides on the account.
+    await tx.lockAccount(this.options.tenantId, accountId);
+  }
+
+  private async findByReference(
+    tx: LedgerStorage,
+    accountId: string,
+    line: ExternalLine,
+    claimed: Set<string>
+  ): Promise<LedgerEvent | undefined> {
+    if (line.idempotencyKey) {
+      const event = await tx.getEventByIdempotencyKey(this.options.tenantId, line.idempotencyKey);
+      if (event && event.accountId === accountId && !claimed.has(event.id)) {
+        return event;
+      }
+    }
+    if (line.reference) {
+      const events = await tx.queryEventsBySource(
+        this.options.tenantId,
+        { sourceRef: line.reference, accountId },
+        REFERENCE_CANDIDATE_LIMIT
+      );
+      const open = events.filter((event) => !claimed.has(event.id));
+      return open.find((event) => amountsAgree(line, event)) ?? open[0];
+    }
+    return undefined;
+  }
+}
+
+function assertValidLines(lines: ExternalLine[]): void {
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!line.externalId || !Money.isValid(line.amount) || !(line.date instanceof Date) ||
+        Number.isNaN(line.date.getTime())) {
+      throw new LedgerError(
+        `External line ${line.externalId || "(no id)"} is invalid`,
+        "INVALID_EXTERNAL_LINE",
+        { externalId: line.externalId }
+      );
+    }
+    if (seen.has(line.externalId)) {
+      throw new LedgerError(
+        `External line ${line.externalId} appears more than once`,
+        "DUPLICATE_EXTERNAL_LINE",
+        { externalId: line.externalId }
+      );
+    }
+    seen.add(line.externalId);
+  }
+}
+
+function amountsAgree(line: ExternalLine, event: LedgerEvent): boolean {
+  return (!line.currency || line.currency === event.currency) &&
+    Money.parse(line.amount).equals(Money.parse(event.amount));
+}
+
+/** The unclaimed event of equal amount whose value date is closest to the line's, within the window. */
+function findByAmountAndDate(
+  line: ExternalLine,
+  candidates: LedgerEvent[],
+  claimed: Set<string>,
+  window: number
+): LedgerEvent | undefined {
+  let best: LedgerEvent | undefined;
+  let bestGap = Infinity;
+  for (const event of candidates) {
+    if (claimed.has(event.id) || !amountsAgree(line, event)) continue;
+    const gap = Math.abs((event.effectiveAt ?? event.createdAt).getTime() - line.date.getTime());
+    if (gap <= window && gap < bestGap) {
+      best = event;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
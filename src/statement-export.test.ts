@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Ledger, type AccountStatement } from "./index";
+import { InMemoryStorage } from "./storage";
+import { Money } from "./money";
+import {
+  exportStatementCsv,
+  parseStatementCsv,
+  exportStatementOfx,
+  exportStatementCamt053,
+} from "./statement-export";
+
+function buildStatement(): AccountStatement {
+  return {
+    accountId: "acct-001",
+    currency: "USD",
+    status: "active",
+    openingBalance: "50.00000000",
+    closingBalance: "119.50000000",
+    nextCursor: null,
+    entries: [
+      {
+        eventId: "evt-001",
+        eventType: "CREDIT",
+        amount: "100.00000000",
+        runningBalance: "150.00000000",
+        description: 'Invoice "A-17", paid\r\nin full',
+        transactionId: "txn-001",
+        createdAt: new Date("2026-01-02T10:00:00.000Z"),
+      },
+      {
+        eventId: "evt-002",
+        eventType: "DEBIT",
+        amount: "-30.50000000",
+        runningBalance: "119.50000000",
+        description: null,
+        transactionId: null,
+        createdAt: new Date("2026-01-03T08:30:00.250Z"),
+      },
+    ],
+  };
+}
+
+function tagValues(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, "g"))].map((m) => m[1]);
+}
+
+describe("statement export", () => {
+  let statement: AccountStatement;
+
+  beforeEach(() => {
+    statement = buildStatement();
+  });
+
+  describe("CSV", () => {
+    it("should quote fields and end records with CRLF", () => {
+      const csv = exportStatementCsv(statement);
+      const lines = csv.split("\r\n");
+
+      expect(lines[0]).toBe(
+        "recordType,accountId,currency,eventId,eventType,createdAt,effectiveAt,transactionId,description,amount,balance"
+      );
+      expect(lines[1]).toBe("OPENING,acct-001,USD,,,,,,,,50.00000000");
+      expect(csv).toContain('"Invoice ""A-17"", paid\r\nin full"');
+      expect(csv.endsWith("CLOSING,acct-001,USD,,,,,,,,119.50000000\r\n")).toBe(true);
+    });
+
+    it("should round-trip through parseStatementCsv", () => {
+      statement.entries[0].effectiveAt = new Date("2026-01-01T23:00:00.000Z");
+      const { status, nextCursor, ...expected } = statement;
+      expect(parseStatementCsv(exportStatementCsv(statement))).toEqual(expected);
+    });
+
+    it("should reject files it did not write", () => {
+      expect(() => parseStatementCsv("a,b\r\n1,2\r\n")).toThrow(
+        expect.objectContaining({ code: "INVALID_STATEMENT_FILE" })
+      );
+    });
+  });
+
+  describe("OFX", () => {
+    it("should carry transactions and balances", () => {
+      const ofx = exportStatementOfx(statement);
+
+      expect(ofx).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+      expect(tagValues(ofx, "TRNTYPE")).toEqual(["CREDIT", "DEBIT"]);
+      expect(tagValues(ofx, "TRNAMT")).toEqual(["100.00", "-30.50"]);
+      expect(tagValues(ofx, "FITID")).toEqual(["evt-001", "evt-002"]);
+      expect(tagValues(ofx, "DTPOSTED")[1]).toBe("20260103083000.250[0:GMT]");
+      expect(tagValues(ofx, "MEMO")).toEqual(["Invoice &quot;A-17&quot;, paid\r\nin full"]);
+      expect(tagValues(ofx, "BALAMT")).toEqual(["119.50"]);
+      expect(tagValues(ofx, "VALUE")).toEqual(["50.00"]);
+    });
+
+    it("should reconcile opening plus transactions to closing", () => {
+      const ofx = exportStatementOfx(statement);
+      const movement = Money.sum(tagValues(ofx, "TRNAMT").map((a) => Money.parse(a)));
+      const [opening] = tagValues(ofx, "VALUE");
+      const [closing] = tagValues(ofx, "BALAMT");
+      expect(Money.parse(opening).add(movement).equals(Money.parse(closing))).toBe(true);
+    });
+  });
+
+  describe("camt.053", () => {
+    it("should carry opening and closing balances with credit/debit indicators", () => {
+      const xml = exportStatementCamt053(statement, { institutionId: "BANK-9" });
+
+      expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"');
+      expect(tagValues(xml, "Cd")).toEqual(["OPBD", "CLBD", "CREDIT", "DEBIT"]);
+      expect(tagValues(xml, "Amt")).toEqual(["50.00", "119.50", "100.00", "30.50"]);
+      expect(tagValues(xml, "CdtDbtInd")).toEqual(["CRDT", "CRDT", "CRDT", "DBIT"]);
+      expect(tagValues(xml, "AddtlNtryInf")).toEqual(["Running balance 150.00", "Running balance 119.50"]);
+      expect(xml).toContain("<Id>BANK-9</Id>");
+    });
+
+    it("should use the value date when an entry has one", () => {
+      statement.entries[0].effectiveAt = new Date("2026-01-01T00:00:00.000Z");
+      const xml = exportStatementCamt053(statement);
+
+      expect(xml).toContain("<BookgDt><DtTm>2026-01-02T10:00:00.000Z</DtTm></BookgDt>");
+      expect(xml).toContain("<ValDt><DtTm>2026-01-01T00:00:00.000Z</DtTm></ValDt>");
+      expect(xml).toContain("<ValDt><DtTm>2026-01-03T08:30:00.250Z</DtTm></ValDt>");
+      expect(tagValues(exportStatementOfx(statement), "DTUSER")).toEqual(["20260101000000.000[0:GMT]"]);
+    });
+
+    it("should carry balances larger than any single amount", async () => {
+      const ledger = new Ledger({ tenantId: "tenant-001" }, new InMemoryStorage());
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      for (const key of ["credit-1", "credit-2"]) {
+        await ledger.recordEvent({
+          accountId: account.id,
+          eventType: "CREDIT",
+          amount: "999999999999.00",
+          currency: "USD",
+          idempotencyKey: key,
+        });
+      }
+
+      const xml = exportStatementCamt053(await ledger.getAccountStatement(account.id));
+      expect(tagValues(xml, "Amt")).toEqual([
+        "0.00",
+        "1999999999998.00",
+        "999999999999.00",
+        "999999999999.00",
+      ]);
+      expect(tagValues(xml, "CdtDbtInd")).toEqual(["CRDT", "CRDT", "CRDT", "CRDT"]);
+    });
+
+    it("should reject amounts finer than camt.053 allows", () => {
+      statement.entries[1].amount = "-30.50000001";
+      expect(() => exportStatementCamt053(statement)).toThrow(
+        expect.objectContaining({ code: "UNREPRESENTABLE_AMOUNT" })
+      );
+    });
+  });
+
+  describe("determinism", () => {
+    it("should render the same ledger history to identical bytes", async () => {
+      const storage = new InMemoryStorage();
+      const ledger = new Ledger({ tenantId: "tenant-001" }, storage);
+      const account = await ledger.openAccount({ accountType: "CASH", currency: "USD" });
+      await ledger.recordEvent({
+        accountId: account.id,
+        eventType: "CREDIT",
+        amount: "12.34",
+        currency: "USD",
+        idempotencyKey: "credit-001",
+      });
+
+      const first = await ledger.getAccountStatement(account.id);
+      const second = await ledger.getAccountStatement(account.id);
+      for (const render of [exportStatementCsv, exportStatementOfx, exportStatementCamt053]) {
+        expect(render(first)).toBe(render(second));
+      }
+    });
+
+    it("should stamp empty statements with a fixed time", () => {
+      statement.entries = [];
+      expect(exportStatementOfx(statement)).toContain("<DTSERVER>19700101000000.000[0:GMT]</DTSERVER>");
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { LedgerError } from "./errors";
+import { Money } from "./money";
+import type { AccountStatement, StatementEntry } from "./index";
+
+/**
+ * Renderers for `AccountStatement`. Output depends only on the statement and
+ * the options, never on the clock, so the same history always renders to the
+ * same bytes.
+ */
+export interface StatementExportOptions {
+  /**
+   * Timestamp stamped into file headers. Defaults to the last entry's
+   * `createdAt`, or the Unix epoch for an empty statement.
+   */
+  generatedAt?: Date;
+  /** Institution identifier for OFX `BANKID` and camt.053 servicer. Defaults to "LEDGER". */
+  institutionId?: string;
+}
+
+export const CSV_COLUMNS = [
+  "recordType",
+  "accountId",
+  "currency",
+  "eventId",
+  "eventType",
+  "createdAt",
+  "effectiveAt",
+  "transactionId",
+  "description",
+  "amount",
+  "balance",
+] as const;
+
+export type ParsedStatement = Omit<AccountStatement, "status" | "nextCursor">;
+
+/**
+ * RFC 4180 CSV: CRLF line endings, a header row, then one OPENING row, one
+ * ENTRY row per statement entry and one CLOSING row. ENTRY rows carry the
+ * running balance in `balance`.
+ */
+export function exportStatementCsv(statement: AccountStatement): string {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+  const row = (recordType: string, entry: Partial<StatementEntry>, amount: string, balance: string) => [
+    recordType,
+    statement.accountId,
+    statement.currency,
+    entry.eventId ?? "",
+    entry.eventType ?? "",
+    entry.createdAt ? entry.createdAt.toISOString() : "",
+    entry.effectiveAt ? entry.effectiveAt.toISOString() : "",
+    entry.transactionId ?? "",
+    entry.description ?? "",
+    amount,
+    balance,
+  ];
+
+  rows.push(row("OPENING", {}, "", statement.openingBalance));
+  for (const entry of statement.entries) {
+    rows.push(row("ENTRY", entry, entry.amount, entry.runningBalance));
+  }
+  rows.push(row("CLOSING", {}, "", statement.closingBalance));
+
+  return rows.map((fields) => fields.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Reads back a file written by `exportStatementCsv`. Empty descriptions and
+ * transaction ids come back as null and empty value dates are omitted,
+ * matching the statement they came from.
+ */
+export function parseStatementCsv(csv: string): ParsedStatement {
+  const [header, ...records] = parseCsvRecords(csv);
+  if (!header || header.join(",") !== CSV_COLUMNS.join(",")) {
+    throw new LedgerError("Statement CSV has an unexpected header", "INVALID_STATEMENT_FILE");
+  }
+
+  let opening: string[] | undefined;
+  let closing: string[] | undefined;
+  const entries: StatementEntry[] = [];
+  for (const record of records) {
+    if (record.length !== CSV_COLUMNS.length) {
+      throw new LedgerError(
+        `Statement CSV record has ${record.length} fields, expected ${CSV_COLUMNS.length}`,
+        "INVALID_STATEMENT_FILE"
+      );
+    }
+    const [recordType, , , eventId, eventType, createdAt, effectiveAt, transactionId, description, amount, balance] =
+      record;
+    if (recordType === "OPENING") {
+      opening = record;
+    } else if (recordType === "CLOSING") {
+      closing = record;
+    } else if (recordType === "ENTRY") {
+      entries.push({
+        eventId,
+        eventType,
+        amount,
+        runningBalance: balance,
+        description: description === "" ? null : description,
+        transactionId: transactionId === "" ? null : transactionId,
+        createdAt: new Date(createdAt),
+        ...(effectiveAt !== "" && { effectiveAt: new Date(effectiveAt) }),
+      });
+    } else {
+      throw new LedgerError(`Unknown statement record type ${recordType}`, "INVALID_STATEMENT_FILE");
+    }
+  }
+
+  if (!opening || !closing) {
+    throw new LedgerError("Statement CSV is missing its opening or closing balance", "INVALID_STATEMENT_FILE");
+  }
+
+  return {
+    accountId: opening[1],
+    currency: opening[2],
+    entries,
+    openingBalance: opening[10],
+    closingBalance: closing[10],
+  };
+}
+
+/**
+ * OFX 2.2 bank statement. OFX has no slot for per-transaction balances, so
+ * running balances are omitted; the opening balance travels in `BALLIST` and
+ * the closing balance in `LEDGERBAL`. Value dates go in `DTUSER`.
+ */
+export function exportStatementOfx(statement: AccountStatement, options?: StatementExportOptions): string {
+  const generatedAt = resolveGeneratedAt(statement, options);
+  const first = statement.entries[0]?.createdAt ?? generatedAt;
+  const transactions = statement.entries.map((entry) => [
+    "<STMTTRN>",
+    `<TRNTYPE>${Money.parse(entry.amount).isNegative() ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+    `<DTPOSTED>${formatOfxDate(entry.createdAt)}</DTPOSTED>`,
+    ...(entry.effectiveAt ? [`<DTUSER>${formatOfxDate(entry.effectiveAt)}</DTUSER>`] : []),
+    `<TRNAMT>${formatDecimal(entry.amount)}</TRNAMT>`,
+    `<FITID>${escapeXml(entry.eventId)}</FITID>`,
+    `<NAME>${escapeXml(truncate(entry.eventType, 32))}</NAME>`,
+    ...(entry.description ? [`<MEMO>${escapeXml(truncate(entry.description, 255))}</MEMO>`] : []),
+    "</STMTTRN>",
+  ]);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    `<DTSERVER>${formatOfxDate(generatedAt)}</DTSERVER>`,
+    "<LANGUAGE>ENG</LANGUAGE>",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    "<STMTTRNRS>",
+    `<TRNUID>${escapeXml(statement.accountId)}</TRNUID>`,
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${escapeXml(statement.currency)}</CURDEF>`,
+    "<BANKACCTFROM>",
+    `<BANKID>${escapeXml(options?.institutionId ?? "LEDGER")}</BANKID>`,
+    `<ACCTID>${escapeXml(statement.accountId)}</ACCTID>`,
+    "<ACCTTYPE>CHECKING</ACCTTYPE>",
+    "</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${formatOfxDate(first)}</DTSTART>`,
+    `<DTEND>${formatOfxDate(generatedAt)}</DTEND>`,
+    ...transactions.flat(),
+    "</BANKTRANLIST>",
+    "<LEDGERBAL>",
+    `<BALAMT>${formatDecimal(statement.closingBalance)}</BALAMT>`,
+    `<DTASOF>${formatOfxDate(generatedAt)}</DTASOF>`,
+    "</LEDGERBAL>",
+    "<BALLIST>",
+    "<BAL>",
+    "<NAME>OPENING</NAME>",
+    "<DESC>Opening balance</DESC>",
+    "<BALTYPE>DOLLAR</BALTYPE>",
+    `<VALUE>${formatDecimal(statement.openingBalance)}</VALUE>`,
+    `<DTASOF>${formatOfxDate(first)}</DTASOF>`,
+    "</BAL>",
+    "</BALLIST>",
+    "</STMTRS>",
+    "</STMTTRNRS>",
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * ISO 20022 camt.053.001.02 bank-to-customer statement with OPBD and CLBD
+ * balances. Entry amounts are unsigned with a CRDT/DBIT indicator; running
+ * balances go in `AddtlNtryInf`, the format having no dedicated element.
+ * `ValDt` is the entry's value date, falling back to its booking date.
+ */
+export function exportStatementCamt053(statement: AccountStatement, options?: StatementExportOptions): string {
+  const generatedAt = resolveGeneratedAt(statement, options);
+  const first = statement.entries[0]?.createdAt ?? generatedAt;
+  const statementId = `${statement.accountId}-${formatCompactDate(generatedAt)}`;
+
+  const balance = (code: string, amount: string, at: Date) => [
+    "      <Bal>",
+    `        <Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp>`,
+    `        ${camtAmount(amount, statement.currency)}`,
+    `        <CdtDbtInd>${creditDebit(amount)}</CdtDbtInd>`,
+    `        <Dt><DtTm>${formatIsoDate(at)}</DtTm></Dt>`,
+    "      </Bal>",
+  ];
+
+  const entries = statement.entries.map((entry) => [
+    "      <Ntry>",
+    `        <NtryRef>${escapeXml(entry.eventId)}</NtryRef>`,
+    `        ${camtAmount(entry.amount, statement.currency)}`,
+    `        <CdtDbtInd>${creditDebit(entry.amount)}</CdtDbtInd>`,
+    "        <Sts>BOOK</Sts>",
+    `        <BookgDt><DtTm>${formatIsoDate(entry.createdAt)}</DtTm></BookgDt>`,
+    `        <ValDt><DtTm>${formatIsoDate(entry.effectiveAt ?? entry.createdAt)}</DtTm></ValDt>`,
+    `        <AcctSvcrRef>${escapeXml(entry.eventId)}</AcctSvcrRef>`,
+    `        <BkTxCd><Prtry><Cd>${escapeXml(entry.eventType)}</Cd></Prtry></BkTxCd>`,
+    "        <NtryDtls>",
+    "          <TxDtls>",
+    "            <Refs>",
+    `              <AcctSvcrRef>${escapeXml(entry.eventId)}</AcctSvcrRef>`,
+    ...(entry.transactionId ? [`              <TxId>${escapeXml(entry.transactionId)}</TxId>`] : []),
+    "            </Refs>",
+    ...(entry.description
+      ? [`            <RmtInf><Ustrd>${escapeXml(truncate(entry.description, 140))}</Ustrd></RmtInf>`]
+      : []),
+    "          </TxDtls>",
+    "        </NtryDtls>",
+    `        <AddtlNtryInf>Running balance ${formatDecimal(entry.runningBalance)}</AddtlNtryInf>`,
+    "      </Ntry>",
+  ]);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">',
+    "  <BkToCstmrStmt>",
+    "    <GrpHdr>",
+    `      <MsgId>${escapeXml(statementId)}</MsgId>`,
+    `      <CreDtTm>${formatIsoDate(generatedAt)}</CreDtTm>`,
+    "    </GrpHdr>",
+    "    <Stmt>",
+    `      <Id>${escapeXml(statementId)}</Id>`,
+    `      <CreDtTm>${formatIsoDate(generatedAt)}</CreDtTm>`,
+    "      <Acct>",
+    `        <Id><Othr><Id>${escapeXml(statement.accountId)}</Id></Othr></Id>`,
+    `        <Ccy>${escapeXml(statement.currency)}</Ccy>`,
+    `        <Svcr><FinInstnId><Othr><Id>${escapeXml(options?.institutionId ?? "LEDGER")}</Id></Othr></FinInstnId></Svcr>`,
+    "      </Acct>",
+    ...balance("OPBD", statement.openingBalance, first),
+    ...balance("CLBD", statement.closingBalance, generatedAt),
+    ...entries.flat(),
+    "    </Stmt>",
+    "  </BkToCstmrStmt>",
+    "</Document>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function resolveGeneratedAt(statement: AccountStatement, options?: StatementExportOptions): Date {
+  if (options?.generatedAt) return options.generatedAt;
+  const last = statement.entries[statement.entries.length - 1];
+  return last ? last.createdAt : new Date(0);
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Splits RFC 4180 text into records, accepting CRLF or bare LF line endings. */
+export function parseCsvRecords(csv: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  while (i < csv.length) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || (char === "\r" && csv[i + 1] === "\n")) {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+      if (char === "\r") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new LedgerError("Statement CSV has an unterminated quoted field", "INVALID_STATEMENT_FILE");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? value.slice(0, length) : value;
+}
+
+/** Canonical amount without trailing zeros beyond two decimals. */
+function formatDecimal(amount: string): string {
+  return Money.parseTotal(amount).toString().replace(/0{1,6}$/, "");
+}
+
+function camtAmount(amount: string, currency: string): string {
+  const magnitude = formatDecimal(Money.parseTotal(amount).abs().toString());
+  if ((magnitude.split(".")[1] ?? "").length > 5) {
+    throw new LedgerError(
+      `Amount ${amount} has more than the 5 decimals camt.053 allows`,
+      "UNREPRESENTABLE_AMOUNT",
+      { amount }
+    );
+  }
+  return `<Amt Ccy="${escapeXml(currency)}">${magnitude}</Amt>`;
+}
+
+function creditDebit(amount: string): "CRDT" | "DBIT" {
+  return Money.parseTotal(amount).isNegative() ? "DBIT" : "CRDT";
+}
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString();
+}
+
+function formatCompactDate(date: Date): string {
+  return date.toISOString().replace(/[-:T.Z]/g, "").slice(0, 14);
+}
+
+function formatOfxDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${formatCompactDate(date)}.${iso.slice(20, 23)}[0:GMT]`;
+}
@@ -1,23 +1,160 @@
-import { drizzle } from "drizzle-orm/node-postgres";
+import { drizzle, type NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import pg from "pg";
-import { eq, and, max } from "drizzle-orm";
+import { eq, and, or, gt, gte, lte, isNull, max, sum, count, desc, asc, sql, DrizzleQueryError, type SQL } from "drizzle-orm";
 import {
   ledgerAccounts,
   ledgerEvents,
   auditEvents,
+  balanceSnapshots,
+  ledgerHolds,
+  ledgerOutbox,
+  ledgerProjections,
+  ledgerFxResidues,
+  ledgerPeriods,
+  ledgerPeriodBalances,
+  ledgerReconciliationDecisions,
   type LedgerAccount,
   type LedgerEvent,
   type AuditEvent,
+  type BalanceSnapshot,
+  type LedgerHold,
+  type OutboxEntry,
+  type ProjectionRecord,
+  type FxResidue,
+  type AccountingPeriod,
+  type PeriodBalance,
+  type ReconciliationDecision,
 } from "../shared/schema";
-import type { LedgerStorage } from "./index";
+import type {
+  LedgerStorage,
+  AccountStatus,
+  AuditEventFilter,
+  EventPosition,
+  EventRange,
+  EventSourceFilter,
+  EventSummary,
+  OutboxStatus,
+  SnapshotLookup,
+} from "./index";
+import { LedgerError } from "./errors";
+import { Money } from "./money";
 
 const { Pool } = pg;
 
+type Database = PgDatabase<NodePgQueryResultHKT>;
+
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Maps unique-constraint violations on `ledger_events` to retryable
+ * LedgerErrors so the ledger can re-run the losing unit of work.
+ */
+function toConflictError(error: unknown): unknown {
+  const pgError = (error instanceof DrizzleQueryError ? error.cause : error) as {
+    code?: string;
+    constraint?: string;
+  };
+  if (pgError?.code !== UNIQUE_VIOLATION) {
+    return error;
+  }
+  if (pgError.constraint === "unique_account_sequence") {
+    return new LedgerError("Sequence number already taken", "SEQUENCE_CONFLICT");
+  }
+  if (pgError.constraint === "unique_idempotency") {
+    return new LedgerError("Idempotency key already used", "IDEMPOTENCY_CONFLICT");
+  }
+  return error;
+}
+
 export function createDatabaseStorage(connectionString: string): LedgerStorage {
   const pool = new Pool({ connectionString });
-  const db = drizzle(pool);
+  return createDrizzleStorage(drizzle(pool));
+}
+
+/**
+ * Binds a Date the way drizzle stores it in a timestamp column: as its UTC ISO
+ * string. Raw `sql` templates skip the column encoder, and the driver would
+ * otherwise format the Date in the host's local time zone.
+ */
+function utcTimestamp(date: Date): SQL {
+  return sql`${date.toISOString()}::timestamp`;
+}
+
+/** Value date at millisecond precision, so positions round-trip through JS Dates. */
+const eventValueDateMs = sql`date_trunc('milliseconds', coalesce(${ledgerEvents.effectiveAt}, ${ledgerEvents.createdAt}))`;
+
+function eventRangeConditions(tenantId: string, accountId: string, range?: EventRange): SQL[] {
+  const conditions = [eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.accountId, accountId)];
+  const byValue = range?.dateBasis === "value";
+  if (range?.fromSequence !== undefined) conditions.push(gte(ledgerEvents.sequenceNumber, range.fromSequence));
+  if (range?.toSequence !== undefined) conditions.push(lte(ledgerEvents.sequenceNumber, range.toSequence));
+  if (range?.fromDate) {
+    conditions.push(byValue ? gte(eventValueDateMs, utcTimestamp(range.fromDate)) : gte(ledgerEvents.createdAt, range.fromDate));
+  }
+  if (range?.toDate) {
+    conditions.push(byValue ? lte(eventValueDateMs, utcTimestamp(range.toDate)) : lte(ledgerEvents.createdAt, range.toDate));
+  }
+  if (range?.after) {
+    conditions.push(
+      sql`(${eventValueDateMs}, ${ledgerEvents.sequenceNumber}) > (${utcTimestamp(range.after.date)}, ${range.after.sequenceNumber})`
+    );
+  }
+  if (range?.before) {
+    conditions.push(
+      sql`(${eventValueDateMs}, ${ledgerEvents.sequenceNumber}) < (${utcTimestamp(range.before.date)}, ${range.before.sequenceNumber})`
+    );
+  }
+  return conditions;
+}
 
+/**
+ * Audit rows are paged by (created_at, id). Postgres keeps microseconds but a
+ * cursor only carries a JS Date, so both sides compare at millisecond precision.
+ */
+const auditCreatedAtMs = sql`date_trunc('milliseconds', ${auditEvents.createdAt})`;
+const eventCreatedAtMs = sql`date_trunc('milliseconds', ${ledgerEvents.createdAt})`;
+
+/** In-memory counterpart of the (created_at, id) keyset order. */
+function compareCreatedAtThenId(a: { createdAt: Date; id: string }, b: { createdAt: Date; id: string }): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function eventSourceConditions(tenantId: string, filter: EventSourceFilter): SQL[] {
+  const conditions = [eq(ledgerEvents.tenantId, tenantId)];
+  if (filter.sourceType !== undefined) conditions.push(eq(ledgerEvents.sourceType, filter.sourceType));
+  if (filter.sourceRef !== undefined) conditions.push(eq(ledgerEvents.sourceRef, filter.sourceRef));
+  if (filter.accountId !== undefined) conditions.push(eq(ledgerEvents.accountId, filter.accountId));
+  if (filter.after) {
+    conditions.push(
+      sql`(${eventCreatedAtMs}, ${ledgerEvents.id}) > (${utcTimestamp(filter.after.createdAt)}, ${filter.after.id})`
+    );
+  }
+  return conditions;
+}
+
+function auditFilterConditions(tenantId: string, filter: AuditEventFilter): SQL[] {
+  const conditions = [eq(auditEvents.tenantId, tenantId)];
+  if (filter.entityType !== undefined) conditions.push(eq(auditEvents.entityType, filter.entityType));
+  if (filter.entityId !== undefined) conditions.push(eq(auditEvents.entityId, filter.entityId));
+  if (filter.action !== undefined) conditions.push(eq(auditEvents.action, filter.action));
+  if (filter.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filter.actorId));
+  if (filter.fromDate) conditions.push(gte(auditEvents.createdAt, filter.fromDate));
+  if (filter.toDate) conditions.push(lte(auditEvents.createdAt, filter.toDate));
+  if (filter.after) {
+    conditions.push(
+      sql`(${auditCreatedAtMs}, ${auditEvents.id}) > (${utcTimestamp(filter.after.createdAt)}, ${filter.after.id})`
+    );
+  }
+  return conditions;
+}
+
+function createDrizzleStorage(db: Database): LedgerStorage {
   return {
+    async transaction<T>(work: (tx: LedgerStorage) => Promise<T>): Promise<T> {
+      return db.transaction((tx) => work(createDrizzleStorage(tx)));
+    },
+
     async getAccount(tenantId: string, accountId: string): Promise<LedgerAccount | undefined> {
       const [account] = await db
         .select()
@@ -26,11 +163,54 @@ export function createDatabaseStorage(connectionString: string): LedgerStorage {
       return account || undefined;
     },
 
+    async getAccounts(tenantId: string): Promise<LedgerAccount[]> {
+      return db
+        .select()
+        .from(ledgerAccounts)
+        .where(eq(ledgerAccounts.tenantId, tenantId))
+        .orderBy(asc(ledgerAccounts.id));
+    },
+
     async createAccount(account: Omit<LedgerAccount, "createdAt">): Promise<LedgerAccount> {
       const [created] = await db.insert(ledgerAccounts).values(account).returning();
       return created;
     },
 
+    async getChildAccounts(tenantId: string, parentAccountId: string): Promise<LedgerAccount[]> {
+      return db
+        .select()
+        .from(ledgerAccounts)
+        .where(and(eq(ledgerAccounts.tenantId, tenantId), eq(ledgerAccounts.parentAccountId, parentAccountId)))
+        .orderBy(asc(ledgerAccounts.id));
+    },
+
+    async updateAccountParent(
+      tenantId: string,
+      accountId: string,
+      parentAccountId: string | null
+    ): Promise<LedgerAccount> {
+      const [updated] = await db
+        .update(ledgerAccounts)
+        .set({ parentAccountId })
+        .where(and(eq(ledgerAccounts.tenantId, tenantId), eq(ledgerAccounts.id, accountId)))
+        .returning();
+      return updated;
+    },
+
+    async updateAccountStatus(
+      tenantId: string,
+      accountId: string,
+      status: AccountStatus,
+      statusReason: string | null
+    ): Promise<LedgerAccount> {
+      const [updated] = await db
+        .update(ledgerAccounts)
+        .set({ status, statusReason })
+        .where(and(eq(ledgerAccounts.tenantId, tenantId), eq(ledgerAccounts.id, accountId)))
+        .returning();
+      return updated;
+    },
+
     async getEventByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerEvent | undefined> {
       const [event] = await db
         .select()
@@ -56,6 +236,47 @@ export function createDatabaseStorage(connectionString: string): LedgerStorage {
         .where(and(eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.accountId, accountId)));
     },
 
+    async getEventsByTransactionId(tenantId: string, transactionId: string): Promise<LedgerEvent[]> {
+      return db
+        .select()
+        .from(ledgerEvents)
+        .where(and(eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.transactionId, transactionId)));
+    },
+
+    async getReversalsOf(tenantId: string, eventId: string): Promise<LedgerEvent[]> {
+      return db
+        .select()
+        .from(ledgerEvents)
+        .where(and(eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.reversesEventId, eventId)))
+        .orderBy(asc(ledgerEvents.sequenceNumber));
+    },
+
+    async getEventsInRange(
+      tenantId: string,
+      accountId: string,
+      range?: EventRange,
+      limit?: number
+    ): Promise<LedgerEvent[]> {
+      const query = db
+        .select()
+        .from(ledgerEvents)
+        .where(and(...eventRangeConditions(tenantId, accountId, range)))
+        .orderBy(
+          ...(range?.dateBasis === "value"
+            ? [asc(eventValueDateMs), asc(ledgerEvents.sequenceNumber)]
+            : [asc(ledgerEvents.sequenceNumber)])
+        );
+      return limit !== undefined ? query.limit(limit) : query;
+    },
+
+    async summarizeEvents(tenantId: string, accountId: string, range?: EventRange): Promise<EventSummary> {
+      const [result] = await db
+        .select({ total: sum(ledgerEvents.amount), count: count() })
+        .from(ledgerEvents)
+        .where(and(...eventRangeConditions(tenantId, accountId, range)));
+      return { total: result?.total ?? "0", count: result?.count ?? 0 };
+    },
+
     async getNextSequenceNumber(tenantId: string, accountId: string): Promise<number> {
       const result = await db
         .select({ maxSeq: max(ledgerEvents.sequenceNumber) })
@@ -66,22 +287,411 @@ export function createDatabaseStorage(connectionString: string): LedgerStorage {
       return (maxSeq ?? 0) + 1;
     },
 
-    async createEvent(event: Omit<LedgerEvent, "createdAt">): Promise<LedgerEvent> {
-      const [created] = await db.insert(ledgerEvents).values(event).returning();
-      return created;
+    async getLatestEvent(tenantId: string, accountId: string): Promise<LedgerEvent | undefined> {
+      const [event] = await db
+        .select()
+        .from(ledgerEvents)
+        .where(and(eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.accountId, accountId)))
+        .orderBy(desc(ledgerEvents.sequenceNumber))
+        .limit(1);
+      return event || undefined;
+    },
+
+    async getEventBySequence(
+      tenantId: string,
+      accountId: string,
+      sequenceNumber: number
+    ): Promise<LedgerEvent | undefined> {
+      const [event] = await db
+        .select()
+        .from(ledgerEvents)
+        .where(
+          and(
+            eq(ledgerEvents.tenantId, tenantId),
+            eq(ledgerEvents.accountId, accountId),
+            eq(ledgerEvents.sequenceNumber, sequenceNumber)
+          )
+        );
+      return event || undefined;
+    },
+
+    async lockAccount(tenantId: string, accountId: string): Promise<void> {
+      await db
+        .select({ id: ledgerAccounts.id })
+        .from(ledgerAccounts)
+        .where(and(eq(ledgerAccounts.tenantId, tenantId), eq(ledgerAccounts.id, accountId)))
+        .for("update");
+    },
+
+    async createEvent(event: LedgerEvent): Promise<LedgerEvent> {
+      try {
+        const [created] = await db.insert(ledgerEvents).values(event).returning();
+        return created;
+      } catch (error) {
+        throw toConflictError(error);
+      }
+    },
+
+    async createEvents(events: LedgerEvent[]): Promise<LedgerEvent[]> {
+      try {
+        return await db.insert(ledgerEvents).values(events).returning();
+      } catch (error) {
+        throw toConflictError(error);
+      }
+    },
+
+    async setEventHashes(
+      tenantId: string,
+      hashes: Pick<LedgerEvent, "id" | "hash" | "previousHash">[]
+    ): Promise<void> {
+      for (const { id, hash, previousHash } of hashes) {
+        await db
+          .update(ledgerEvents)
+          .set({ hash, previousHash })
+          .where(and(eq(ledgerEvents.tenantId, tenantId), eq(ledgerEvents.id, id), isNull(ledgerEvents.hash)));
+      }
     },
 
     async createAuditEvent(event: Omit<AuditEvent, "createdAt">): Promise<AuditEvent> {
       const [created] = await db.insert(auditEvents).values(event).returning();
       return created;
     },
+
+    async queryAuditEvents(tenantId: string, filter: AuditEventFilter, limit: number): Promise<AuditEvent[]> {
+      return db
+        .select()
+        .from(auditEvents)
+        .where(and(...auditFilterConditions(tenantId, filter)))
+        .orderBy(asc(auditCreatedAtMs), asc(auditEvents.id))
+        .limit(limit);
+    },
+
+    async queryEventsBySource(tenantId: string, filter: EventSourceFilter, limit: number): Promise<LedgerEvent[]> {
+      return db
+        .select()
+        .from(ledgerEvents)
+        .where(and(...eventSourceConditions(tenantId, filter)))
+        .orderBy(asc(eventCreatedAtMs), asc(ledgerEvents.id))
+        .limit(limit);
+    },
+
+    async createBalanceSnapshot(snapshot: Omit<BalanceSnapshot, "createdAt">): Promise<BalanceSnapshot> {
+      const [created] = await db.insert(balanceSnapshots).values(snapshot).returning();
+      return created;
+    },
+
+    async getLatestBalanceSnapshot(
+      tenantId: string,
+      accountId: string,
+      lookup?: SnapshotLookup
+    ): Promise<BalanceSnapshot | undefined> {
+      const conditions = [eq(balanceSnapshots.tenantId, tenantId), eq(balanceSnapshots.accountId, accountId)];
+      if (lookup?.maxSequence !== undefined) conditions.push(lte(balanceSnapshots.sequenceNumber, lookup.maxSequence));
+      if (lookup?.maxEventAt) conditions.push(lte(balanceSnapshots.lastEventAt, lookup.maxEventAt));
+
+      const [snapshot] = await db
+        .select()
+        .from(balanceSnapshots)
+        .where(and(...conditions))
+        .orderBy(desc(balanceSnapshots.sequenceNumber))
+        .limit(1);
+      return snapshot || undefined;
+    },
+
+    async getBalanceSnapshots(tenantId: string, accountId: string): Promise<BalanceSnapshot[]> {
+      return db
+        .select()
+        .from(balanceSnapshots)
+        .where(and(eq(balanceSnapshots.tenantId, tenantId), eq(balanceSnapshots.accountId, accountId)))
+        .orderBy(asc(balanceSnapshots.sequenceNumber));
+    },
+
+    async createHold(hold: Omit<LedgerHold, "createdAt" | "updatedAt">): Promise<LedgerHold> {
+      const [created] = await db.insert(ledgerHolds).values(hold).returning();
+      return created;
+    },
+
+    async getHoldById(tenantId: string, holdId: string): Promise<LedgerHold | undefined> {
+      const [hold] = await db
+        .select()
+        .from(ledgerHolds)
+        .where(and(eq(ledgerHolds.tenantId, tenantId), eq(ledgerHolds.id, holdId)));
+      return hold || undefined;
+    },
+
+    async getHoldByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerHold | undefined> {
+      const [hold] = await db
+        .select()
+        .from(ledgerHolds)
+        .where(and(eq(ledgerHolds.tenantId, tenantId), eq(ledgerHolds.idempotencyKey, idempotencyKey)));
+      return hold || undefined;
+    },
+
+    async getActiveHolds(tenantId: string, accountId: string, at: Date): Promise<LedgerHold[]> {
+      return db
+        .select()
+        .from(ledgerHolds)
+        .where(
+          and(
+            eq(ledgerHolds.tenantId, tenantId),
+            eq(ledgerHolds.accountId, accountId),
+            eq(ledgerHolds.status, "active"),
+            or(isNull(ledgerHolds.expiresAt), gt(ledgerHolds.expiresAt, at))
+          )
+        );
+    },
+
+    async updateHold(
+      tenantId: string,
+      holdId: string,
+      changes: Pick<LedgerHold, "status" | "capturedAmount" | "captureEventId">
+    ): Promise<LedgerHold> {
+      const [updated] = await db
+        .update(ledgerHolds)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(and(eq(ledgerHolds.tenantId, tenantId), eq(ledgerHolds.id, holdId), eq(ledgerHolds.status, "active")))
+        .returning();
+      if (!updated) {
+        throw new LedgerError(`Hold ${holdId} is no longer active`, "HOLD_NOT_ACTIVE", { holdId });
+      }
+      return updated;
+    },
+
+    async createOutboxEntries(entries: Omit<OutboxEntry, "createdAt">[]): Promise<OutboxEntry[]> {
+      if (entries.length === 0) {
+        return [];
+      }
+      return db.insert(ledgerOutbox).values(entries).returning();
+    },
+
+    async getDueOutboxEntries(tenantId: string, now: Date, limit: number): Promise<OutboxEntry[]> {
+      const heads = db
+        .selectDistinctOn([ledgerOutbox.accountId])
+        .from(ledgerOutbox)
+        .where(and(eq(ledgerOutbox.tenantId, tenantId), eq(ledgerOutbox.status, "pending")))
+        .orderBy(asc(ledgerOutbox.accountId), asc(ledgerOutbox.sequenceNumber))
+        .as("heads");
+      const rows = await db
+        .select()
+        .from(heads)
+        .where(lte(heads.nextAttemptAt, now))
+        .orderBy(asc(heads.createdAt))
+        .limit(limit);
+      return rows;
+    },
+
+    async getOutboxEntries(tenantId: string, status: OutboxStatus): Promise<OutboxEntry[]> {
+      return db
+        .select()
+        .from(ledgerOutbox)
+        .where(and(eq(ledgerOutbox.tenantId, tenantId), eq(ledgerOutbox.status, status)))
+        .orderBy(asc(ledgerOutbox.accountId), asc(ledgerOutbox.sequenceNumber));
+    },
+
+    async updateOutboxEntry(
+      tenantId: string,
+      entryId: string,
+      changes: Pick<OutboxEntry, "status" | "attempts" | "nextAttemptAt" | "lastError" | "deliveredAt">
+    ): Promise<OutboxEntry> {
+      const [updated] = await db
+        .update(ledgerOutbox)
+        .set(changes)
+        .where(and(eq(ledgerOutbox.tenantId, tenantId), eq(ledgerOutbox.id, entryId)))
+        .returning();
+      return updated;
+    },
+
+    async adjustFxResidue(tenantId: string, currency: string, delta: string): Promise<FxResidue> {
+      const updatedAt = new Date();
+      const [adjusted] = await db
+        .insert(ledgerFxResidues)
+        .values({ tenantId, currency, residue: delta, updatedAt })
+        .onConflictDoUpdate({
+          target: [ledgerFxResidues.tenantId, ledgerFxResidues.currency],
+          set: { residue: sql`${ledgerFxResidues.residue} + excluded.residue`, updatedAt },
+        })
+        .returning();
+      return adjusted;
+    },
+
+    async getFxResidues(tenantId: string): Promise<FxResidue[]> {
+      return db
+        .select()
+        .from(ledgerFxResidues)
+        .where(eq(ledgerFxResidues.tenantId, tenantId))
+        .orderBy(asc(ledgerFxResidues.currency));
+    },
+
+    async getProjection(tenantId: string, name: string): Promise<ProjectionRecord | undefined> {
+      const [record] = await db
+        .select()
+        .from(ledgerProjections)
+        .where(and(eq(ledgerProjections.tenantId, tenantId), eq(ledgerProjections.name, name)));
+      return record || undefined;
+    },
+
+    async saveProjection(record: Omit<ProjectionRecord, "updatedAt">): Promise<ProjectionRecord> {
+      const updatedAt = new Date();
+      const [saved] = await db
+        .insert(ledgerProjections)
+        .values({ ...record, updatedAt })
+        .onConflictDoUpdate({
+          target: [ledgerProjections.tenantId, ledgerProjections.name],
+          set: { version: record.version, state: record.state, checkpoint: record.checkpoint, updatedAt },
+        })
+        .returning();
+      return saved;
+    },
+
+    async createPeriod(period: Omit<AccountingPeriod, "createdAt" | "updatedAt">): Promise<AccountingPeriod> {
+      const [created] = await db.insert(ledgerPeriods).values(period).returning();
+      return created;
+    },
+
+    async getPeriod(tenantId: string, periodId: string): Promise<AccountingPeriod | undefined> {
+      const [period] = await db
+        .select()
+        .from(ledgerPeriods)
+        .where(and(eq(ledgerPeriods.tenantId, tenantId), eq(ledgerPeriods.id, periodId)));
+      return period || undefined;
+    },
+
+    async getPeriods(tenantId: string): Promise<AccountingPeriod[]> {
+      return db
+        .select()
+        .from(ledgerPeriods)
+        .where(eq(ledgerPeriods.tenantId, tenantId))
+        .orderBy(asc(ledgerPeriods.startsAt));
+    },
+
+    async getPeriodAt(tenantId: string, at: Date): Promise<AccountingPeriod | undefined> {
+      const [period] = await db
+        .select()
+        .from(ledgerPeriods)
+        .where(and(eq(ledgerPeriods.tenantId, tenantId), lte(ledgerPeriods.startsAt, at), gte(ledgerPeriods.endsAt, at)))
+        .for("share");
+      return period || undefined;
+    },
+
+    async updatePeriod(
+      tenantId: string,
+      periodId: string,
+      changes: Pick<AccountingPeriod, "status" | "closedAt" | "closedBy">
+    ): Promise<AccountingPeriod> {
+      const [updated] = await db
+        .update(ledgerPeriods)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(and(eq(ledgerPeriods.tenantId, tenantId), eq(ledgerPeriods.id, periodId)))
+        .returning();
+      return updated;
+    },
+
+    async savePeriodBalances(balances: Omit<PeriodBalance, "createdAt">[]): Promise<PeriodBalance[]> {
+      if (balances.length === 0) return [];
+      return db
+        .insert(ledgerPeriodBalances)
+        .values(balances)
+        .onConflictDoUpdate({
+          target: [ledgerPeriodBalances.tenantId, ledgerPeriodBalances.periodId, ledgerPeriodBalances.accountId],
+          set: {
+            currency: sql`excluded.currency`,
+            openingBalance: sql`excluded.opening_balance`,
+            closingBalance: sql`excluded.closing_balance`,
+            movement: sql`excluded.movement`,
+            eventCount: sql`excluded.event_count`,
+            createdAt: sql`now()`,
+          },
+        })
+        .returning();
+    },
+
+    async getPeriodBalances(tenantId: string, periodId: string): Promise<PeriodBalance[]> {
+      return db
+        .select()
+        .from(ledgerPeriodBalances)
+        .where(and(eq(ledgerPeriodBalances.tenantId, tenantId), eq(ledgerPeriodBalances.periodId, periodId)))
+        .orderBy(asc(ledgerPeriodBalances.accountId));
+    },
+
+    async saveReconciliationDecisions(
+      decisions: Omit<ReconciliationDecision, "createdAt" | "updatedAt">[]
+    ): Promise<ReconciliationDecision[]> {
+      if (decisions.length === 0) return [];
+      return db
+        .insert(ledgerReconciliationDecisions)
+        .values(decisions)
+        .onConflictDoUpdate({
+          target: [
+            ledgerReconciliationDecisions.tenantId,
+            ledgerReconciliationDecisions.accountId,
+            ledgerReconciliationDecisions.externalId,
+          ],
+          set: {
+            eventId: sql`excluded.event_id`,
+            status: sql`excluded.status`,
+            method: sql`excluded.method`,
+            externalAmount: sql`excluded.external_amount`,
+            externalDate: sql`excluded.external_date`,
+            reference: sql`excluded.reference`,
+            runId: sql`excluded.run_id`,
+            decidedBy: sql`excluded.decided_by`,
+            reason: sql`excluded.reason`,
+            updatedAt: sql`now()`,
+          },
+        })
+        .returning();
+    },
+
+    async getReconciliationDecisions(tenantId: string, accountId: string): Promise<ReconciliationDecision[]> {
+      return db
+        .select()
+        .from(ledgerReconciliationDecisions)
+        .where(
+          and(
+            eq(ledgerReconciliationDecisions.tenantId, tenantId),
+            eq(ledgerReconciliationDecisions.accountId, accountId)
+          )
+        )
+        .orderBy(asc(ledgerReconciliationDecisions.externalId));
+    },
   };
 }
 
+function isInEventRange(event: LedgerEvent, range?: EventRange): boolean {
+  const date = range?.dateBasis === "value" ? valueDateOf(event) : event.createdAt;
+  return (
+    (range?.fromSequence === undefined || event.sequenceNumber >= range.fromSequence) &&
+    (range?.toSequence === undefined || event.sequenceNumber <= range.toSequence) &&
+    (!range?.fromDate || date >= range.fromDate) &&
+    (!range?.toDate || date <= range.toDate) &&
+    (!range?.after || compareValuePosition(event, range.after) > 0) &&
+    (!range?.before || compareValuePosition(event, range.before) < 0)
+  );
+}
+
+function valueDateOf(event: LedgerEvent): Date {
+  return event.effectiveAt ?? event.createdAt;
+}
+
+function compareValuePosition(event: LedgerEvent, position: EventPosition): number {
+  return valueDateOf(event).getTime() - position.date.getTime() || event.sequenceNumber - position.sequenceNumber;
+}
+
 export class InMemoryStorage implements LedgerStorage {
   private accounts: Map<string, LedgerAccount> = new Map();
   private events: LedgerEvent[] = [];
   private auditEvents: AuditEvent[] = [];
+  private balanceSnapshots: BalanceSnapshot[] = [];
+  private holds: LedgerHold[] = [];
+  private outbox: OutboxEntry[] = [];
+  private periods: AccountingPeriod[] = [];
+  private periodBalances: Map<string, PeriodBalance> = new Map();
+  private projections: Map<string, ProjectionRecord> = new Map();
+  private fxResidues: Map<string, FxResidue> = new Map();
+  private reconciliationDecisions: Map<string, ReconciliationDecision> = new Map();
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  /** Undo steps for writes made through this handle; only transaction handles have one. */
+  private undoLog?: Array<() => void>;
 
   private accountKey(tenantId: string, accountId: string): string {
     return `${tenantId}:${accountId}`;
@@ -91,12 +701,57 @@ export class InMemoryStorage implements LedgerStorage {
     return this.accounts.get(this.accountKey(tenantId, accountId));
   }
 
+  async getAccounts(tenantId: string): Promise<LedgerAccount[]> {
+    return [...this.accounts.values()]
+      .filter((a) => a.tenantId === tenantId)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
   async createAccount(account: Omit<LedgerAccount, "createdAt">): Promise<LedgerAccount> {
     const created: LedgerAccount = { ...account, createdAt: new Date() };
-    this.accounts.set(this.accountKey(account.tenantId, account.id), created);
+    this.setRecord(this.accounts, this.accountKey(account.tenantId, account.id), created);
     return created;
   }
 
+  async getChildAccounts(tenantId: string, parentAccountId: string): Promise<LedgerAccount[]> {
+    return [...this.accounts.values()]
+      .filter((a) => a.tenantId === tenantId && a.parentAccountId === parentAccountId)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async updateAccountParent(
+    tenantId: string,
+    accountId: string,
+    parentAccountId: string | null
+  ): Promise<LedgerAccount> {
+    const key = this.accountKey(tenantId, accountId);
+    const existing = this.accounts.get(key);
+    if (!existing) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const updated: LedgerAccount = { ...existing, parentAccountId };
+    this.setRecord(this.accounts, key, updated);
+    return updated;
+  }
+
+  async updateAccountStatus(
+    tenantId: string,
+    accountId: string,
+    status: AccountStatus,
+    statusReason: string | null
+  ): Promise<LedgerAccount> {
+    const key = this.accountKey(tenantId, accountId);
+    const existing = this.accounts.get(key);
+    if (!existing) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const updated: LedgerAccount = { ...existing, status, statusReason };
+    this.setRecord(this.accounts, key, updated);
+    return updated;
+  }
+
   async getEventByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerEvent | undefined> {
     return this.events.find(
       (e) => e.tenantId === tenantId && e.idempotencyKey === idempotencyKey
@@ -113,6 +768,44 @@ export class InMemoryStorage implements LedgerStorage {
     );
   }
 
+  async getEventsByTransactionId(tenantId: string, transactionId: string): Promise<LedgerEvent[]> {
+    return this.events.filter(
+      (e) => e.tenantId === tenantId && e.transactionId === transactionId
+    );
+  }
+
+  async getReversalsOf(tenantId: string, eventId: string): Promise<LedgerEvent[]> {
+    return this.events
+      .filter((e) => e.tenantId === tenantId && e.reversesEventId === eventId)
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+  }
+
+  async getEventsInRange(
+    tenantId: string,
+    accountId: string,
+    range?: EventRange,
+    limit?: number
+  ): Promise<LedgerEvent[]> {
+    const events = this.events
+      .filter((e) => e.tenantId === tenantId && e.accountId === accountId && isInEventRange(e, range))
+      .sort((a, b) =>
+        range?.dateBasis === "value"
+          ? compareValuePosition(a, { date: valueDateOf(b), sequenceNumber: b.sequenceNumber })
+          : a.sequenceNumber - b.sequenceNumber
+      );
+    return limit !== undefined ? events.slice(0, limit) : events;
+  }
+
+  async summarizeEvents(tenantId: string, accountId: string, range?: EventRange): Promise<EventSummary> {
+    const events = this.events.filter(
+      (e) => e.tenantId === tenantId && e.accountId === accountId && isInEventRange(e, range)
+    );
+    return {
+      total: Money.sum(events.map((e) => Money.parse(e.amount))).toString(),
+      count: events.length,
+    };
+  }
+
   async getNextSequenceNumber(tenantId: string, accountId: string): Promise<number> {
     const accountEvents = this.events.filter(
       (e) => e.tenantId === tenantId && e.accountId === accountId
@@ -121,25 +814,424 @@ export class InMemoryStorage implements LedgerStorage {
     return Math.max(...accountEvents.map((e) => e.sequenceNumber)) + 1;
   }
 
-  async createEvent(event: Omit<LedgerEvent, "createdAt">): Promise<LedgerEvent> {
-    const existingByKey = this.events.find(
-      (e) => e.tenantId === event.tenantId && e.idempotencyKey === event.idempotencyKey
+  async getLatestEvent(tenantId: string, accountId: string): Promise<LedgerEvent | undefined> {
+    const accountEvents = await this.getEventsByAccountId(tenantId, accountId);
+    return accountEvents.reduce<LedgerEvent | undefined>(
+      (latest, e) => (!latest || e.sequenceNumber > latest.sequenceNumber ? e : latest),
+      undefined
     );
-    if (existingByKey) {
-      throw new Error(`Duplicate idempotency key: ${event.idempotencyKey}`);
-    }
+  }
+
+  async getEventBySequence(
+    tenantId: string,
+    accountId: string,
+    sequenceNumber: number
+  ): Promise<LedgerEvent | undefined> {
+    return this.events.find(
+      (e) => e.tenantId === tenantId && e.accountId === accountId && e.sequenceNumber === sequenceNumber
+    );
+  }
+
+  async lockAccount(): Promise<void> {
+    // Transactions are already serialized by the transaction queue.
+  }
+
+  async createEvent(event: LedgerEvent): Promise<LedgerEvent> {
+    this.assertUniqueEvents([event]);
+
+    const created: LedgerEvent = { ...event };
+    this.pushRecords(this.events, [created]);
+    return created;
+  }
+
+  async createEvents(events: LedgerEvent[]): Promise<LedgerEvent[]> {
+    this.assertUniqueEvents(events);
 
-    const created: LedgerEvent = { ...event, createdAt: new Date() };
-    this.events.push(created);
+    const created = events.map((event): LedgerEvent => ({ ...event }));
+    this.pushRecords(this.events, created);
     return created;
   }
 
+  async setEventHashes(
+    tenantId: string,
+    hashes: Pick<LedgerEvent, "id" | "hash" | "previousHash">[]
+  ): Promise<void> {
+    for (const { id, hash, previousHash } of hashes) {
+      const index = this.events.findIndex((e) => e.tenantId === tenantId && e.id === id && e.hash === null);
+      if (index !== -1) {
+        this.replaceRecord(this.events, index, { ...this.events[index], hash, previousHash });
+      }
+    }
+  }
+
+  /**
+   * Mirrors the `unique_idempotency` and `unique_account_sequence` constraints.
+   */
+  private assertUniqueEvents(events: LedgerEvent[]): void {
+    const pending: LedgerEvent[] = [];
+    for (const event of events) {
+      const existing = [...this.events, ...pending];
+      if (existing.some((e) => e.tenantId === event.tenantId && e.idempotencyKey === event.idempotencyKey)) {
+        throw new LedgerError(
+          `Duplicate idempotency key: ${event.idempotencyKey}`,
+          "IDEMPOTENCY_CONFLICT"
+        );
+      }
+      if (
+        existing.some(
+          (e) =>
+            e.tenantId === event.tenantId &&
+            e.accountId === event.accountId &&
+            e.sequenceNumber === event.sequenceNumber
+        )
+      ) {
+        throw new LedgerError(
+          `Sequence ${event.sequenceNumber} already taken for account ${event.accountId}`,
+          "SEQUENCE_CONFLICT"
+        );
+      }
+      pending.push(event);
+    }
+  }
+
   async createAuditEvent(event: Omit<AuditEvent, "createdAt">): Promise<AuditEvent> {
     const created: AuditEvent = { ...event, createdAt: new Date() };
-    this.auditEvents.push(created);
+    this.pushRecords(this.auditEvents, [created]);
     return created;
   }
 
+  async queryAuditEvents(tenantId: string, filter: AuditEventFilter, limit: number): Promise<AuditEvent[]> {
+    const after = filter.after;
+
+    return this.auditEvents
+      .filter(
+        (e) =>
+          e.tenantId === tenantId &&
+          (filter.entityType === undefined || e.entityType === filter.entityType) &&
+          (filter.entityId === undefined || e.entityId === filter.entityId) &&
+          (filter.action === undefined || e.action === filter.action) &&
+          (filter.actorId === undefined || e.actorId === filter.actorId) &&
+          (!filter.fromDate || e.createdAt >= filter.fromDate) &&
+          (!filter.toDate || e.createdAt <= filter.toDate) &&
+          (!after || compareCreatedAtThenId(e, after) > 0)
+      )
+      .sort(compareCreatedAtThenId)
+      .slice(0, limit);
+  }
+
+  async queryEventsBySource(tenantId: string, filter: EventSourceFilter, limit: number): Promise<LedgerEvent[]> {
+    const after = filter.after;
+
+    return this.events
+      .filter(
+        (e) =>
+          e.tenantId === tenantId &&
+          (filter.sourceType === undefined || e.sourceType === filter.sourceType) &&
+          (filter.sourceRef === undefined || e.sourceRef === filter.sourceRef) &&
+          (filter.accountId === undefined || e.accountId === filter.accountId) &&
+          (!after || compareCreatedAtThenId(e, after) > 0)
+      )
+      .sort(compareCreatedAtThenId)
+      .slice(0, limit);
+  }
+
+  async createBalanceSnapshot(snapshot: Omit<BalanceSnapshot, "createdAt">): Promise<BalanceSnapshot> {
+    const duplicate = this.balanceSnapshots.some(
+      (s) =>
+        s.tenantId === snapshot.tenantId &&
+        s.accountId === snapshot.accountId &&
+        s.sequenceNumber === snapshot.sequenceNumber
+    );
+    if (duplicate) {
+      throw new Error(`Duplicate snapshot at sequence ${snapshot.sequenceNumber}`);
+    }
+
+    const created: BalanceSnapshot = { ...snapshot, createdAt: new Date() };
+    this.pushRecords(this.balanceSnapshots, [created]);
+    return created;
+  }
+
+  async getLatestBalanceSnapshot(
+    tenantId: string,
+    accountId: string,
+    lookup?: SnapshotLookup
+  ): Promise<BalanceSnapshot | undefined> {
+    const candidates = (await this.getBalanceSnapshots(tenantId, accountId)).filter(
+      (s) =>
+        (lookup?.maxSequence === undefined || s.sequenceNumber <= lookup.maxSequence) &&
+        (!lookup?.maxEventAt || s.lastEventAt <= lookup.maxEventAt)
+    );
+    return candidates[candidates.length - 1];
+  }
+
+  async getBalanceSnapshots(tenantId: string, accountId: string): Promise<BalanceSnapshot[]> {
+    return this.balanceSnapshots
+      .filter((s) => s.tenantId === tenantId && s.accountId === accountId)
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+  }
+
+  async createHold(hold: Omit<LedgerHold, "createdAt" | "updatedAt">): Promise<LedgerHold> {
+    if (await this.getHoldByIdempotencyKey(hold.tenantId, hold.idempotencyKey)) {
+      throw new LedgerError(`Duplicate idempotency key: ${hold.idempotencyKey}`, "IDEMPOTENCY_CONFLICT");
+    }
+
+    const now = new Date();
+    const created: LedgerHold = { ...hold, createdAt: now, updatedAt: now };
+    this.pushRecords(this.holds, [created]);
+    return created;
+  }
+
+  async getHoldById(tenantId: string, holdId: string): Promise<LedgerHold | undefined> {
+    return this.holds.find((h) => h.tenantId === tenantId && h.id === holdId);
+  }
+
+  async getHoldByIdempotencyKey(tenantId: string, idempotencyKey: string): Promise<LedgerHold | undefined> {
+    return this.holds.find((h) => h.tenantId === tenantId && h.idempotencyKey === idempotencyKey);
+  }
+
+  async getActiveHolds(tenantId: string, accountId: string, at: Date): Promise<LedgerHold[]> {
+    return this.holds.filter(
+      (h) =>
+        h.tenantId === tenantId &&
+        h.accountId === accountId &&
+        h.status === "active" &&
+        (!h.expiresAt || h.expiresAt > at)
+    );
+  }
+
+  async updateHold(
+    tenantId: string,
+    holdId: string,
+    changes: Pick<LedgerHold, "status" | "capturedAmount" | "captureEventId">
+  ): Promise<LedgerHold> {
+    const index = this.holds.findIndex((h) => h.tenantId === tenantId && h.id === holdId);
+    if (index === -1) {
+      throw new Error(`Hold ${holdId} not found`);
+    }
+    if (this.holds[index].status !== "active") {
+      throw new LedgerError(`Hold ${holdId} is no longer active`, "HOLD_NOT_ACTIVE", { holdId });
+    }
+
+    const updated: LedgerHold = { ...this.holds[index], ...changes, updatedAt: new Date() };
+    this.replaceRecord(this.holds, index, updated);
+    return updated;
+  }
+
+  async createOutboxEntries(entries: Omit<OutboxEntry, "createdAt">[]): Promise<OutboxEntry[]> {
+    const now = new Date();
+    const created = entries.map((entry) => ({ ...entry, createdAt: now }));
+    this.pushRecords(this.outbox, created);
+    return created;
+  }
+
+  async getDueOutboxEntries(tenantId: string, now: Date, limit: number): Promise<OutboxEntry[]> {
+    const heads = new Map<string, OutboxEntry>();
+    for (const entry of this.outbox) {
+      if (entry.tenantId !== tenantId || entry.status !== "pending") continue;
+      const head = heads.get(entry.accountId);
+      if (!head || entry.sequenceNumber < head.sequenceNumber) {
+        heads.set(entry.accountId, entry);
+      }
+    }
+    return [...heads.values()]
+      .filter((entry) => entry.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getOutboxEntries(tenantId: string, status: OutboxStatus): Promise<OutboxEntry[]> {
+    return this.outbox
+      .filter((e) => e.tenantId === tenantId && e.status === status)
+      .sort((a, b) => a.accountId.localeCompare(b.accountId) || a.sequenceNumber - b.sequenceNumber);
+  }
+
+  async updateOutboxEntry(
+    tenantId: string,
+    entryId: string,
+    changes: Pick<OutboxEntry, "status" | "attempts" | "nextAttemptAt" | "lastError" | "deliveredAt">
+  ): Promise<OutboxEntry> {
+    const index = this.outbox.findIndex((e) => e.tenantId === tenantId && e.id === entryId);
+    if (index === -1) {
+      throw new Error(`Outbox entry ${entryId} not found`);
+    }
+
+    const updated: OutboxEntry = { ...this.outbox[index], ...changes };
+    this.replaceRecord(this.outbox, index, updated);
+    return updated;
+  }
+
+  async adjustFxResidue(tenantId: string, currency: string, delta: string): Promise<FxResidue> {
+    const key = `${tenantId}:${currency}`;
+    const current = Money.parseTotal(this.fxResidues.get(key)?.residue ?? "0");
+    const adjusted: FxResidue = {
+      tenantId,
+      currency,
+      residue: current.add(Money.parseTotal(delta)).toString(),
+      updatedAt: new Date(),
+    };
+    this.setRecord(this.fxResidues, key, adjusted);
+    return adjusted;
+  }
+
+  async getFxResidues(tenantId: string): Promise<FxResidue[]> {
+    return [...this.fxResidues.values()]
+      .filter((r) => r.tenantId === tenantId)
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  async getProjection(tenantId: string, name: string): Promise<ProjectionRecord | undefined> {
+    return this.projections.get(`${tenantId}:${name}`);
+  }
+
+  async saveProjection(record: Omit<ProjectionRecord, "updatedAt">): Promise<ProjectionRecord> {
+    const saved: ProjectionRecord = { ...record, updatedAt: new Date() };
+    this.setRecord(this.projections, `${record.tenantId}:${record.name}`, saved);
+    return saved;
+  }
+
+  async createPeriod(period: Omit<AccountingPeriod, "createdAt" | "updatedAt">): Promise<AccountingPeriod> {
+    if (this.periods.some((p) => p.id === period.id || (p.tenantId === period.tenantId && p.name === period.name))) {
+      throw new Error(`Duplicate period ${period.name}`);
+    }
+    const now = new Date();
+    const created: AccountingPeriod = { ...period, createdAt: now, updatedAt: now };
+    this.pushRecords(this.periods, [created]);
+    return created;
+  }
+
+  async getPeriod(tenantId: string, periodId: string): Promise<AccountingPeriod | undefined> {
+    return this.periods.find((p) => p.tenantId === tenantId && p.id === periodId);
+  }
+
+  async getPeriods(tenantId: string): Promise<AccountingPeriod[]> {
+    return this.periods
+      .filter((p) => p.tenantId === tenantId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async getPeriodAt(tenantId: string, at: Date): Promise<AccountingPeriod | undefined> {
+    return this.periods.find((p) => p.tenantId === tenantId && p.startsAt <= at && p.endsAt >= at);
+  }
+
+  async updatePeriod(
+    tenantId: string,
+    periodId: string,
+    changes: Pick<AccountingPeriod, "status" | "closedAt" | "closedBy">
+  ): Promise<AccountingPeriod> {
+    const index = this.periods.findIndex((p) => p.tenantId === tenantId && p.id === periodId);
+    if (index === -1) {
+      throw new Error(`Period ${periodId} not found`);
+    }
+
+    const updated: AccountingPeriod = { ...this.periods[index], ...changes, updatedAt: new Date() };
+    this.replaceRecord(this.periods, index, updated);
+    return updated;
+  }
+
+  async savePeriodBalances(balances: Omit<PeriodBalance, "createdAt">[]): Promise<PeriodBalance[]> {
+    return balances.map((balance) => {
+      const saved: PeriodBalance = { ...balance, createdAt: new Date() };
+      this.setRecord(this.periodBalances, `${balance.tenantId}:${balance.periodId}:${balance.accountId}`, saved);
+      return saved;
+    });
+  }
+
+  async getPeriodBalances(tenantId: string, periodId: string): Promise<PeriodBalance[]> {
+    return [...this.periodBalances.values()]
+      .filter((b) => b.tenantId === tenantId && b.periodId === periodId)
+      .sort((a, b) => a.accountId.localeCompare(b.accountId));
+  }
+
+  async saveReconciliationDecisions(
+    decisions: Omit<ReconciliationDecision, "createdAt" | "updatedAt">[]
+  ): Promise<ReconciliationDecision[]> {
+    const now = new Date();
+    return decisions.map((decision) => {
+      const key = `${decision.tenantId}:${decision.accountId}:${decision.externalId}`;
+      const saved: ReconciliationDecision = {
+        ...decision,
+        createdAt: this.reconciliationDecisions.get(key)?.createdAt ?? now,
+        updatedAt: now,
+      };
+      this.setRecord(this.reconciliationDecisions, key, saved);
+      return saved;
+    });
+  }
+
+  async getReconciliationDecisions(tenantId: string, accountId: string): Promise<ReconciliationDecision[]> {
+    return [...this.reconciliationDecisions.values()]
+      .filter((d) => d.tenantId === tenantId && d.accountId === accountId)
+      .sort((a, b) => a.externalId.localeCompare(b.externalId));
+  }
+
+  /**
+   * Transactions are serialized through a queue, so each one sees a consistent
+   * view of the store. The `tx` handle shares this instance's state; nested
+   * calls on it run immediately and roll back only their own writes.
+   */
+  async transaction<T>(work: (tx: LedgerStorage) => Promise<T>): Promise<T> {
+    const result = this.transactionQueue.then(() => this.runWithRollback(work));
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runWithRollback<T>(work: (tx: LedgerStorage) => Promise<T>): Promise<T> {
+    const tx: InMemoryStorage = Object.create(this);
+    tx.undoLog = [];
+    tx.transaction = (nested) => tx.runWithRollback(nested);
+    try {
+      const result = await work(tx);
+      this.undoLog?.push(...tx.undoLog);
+      return result;
+    } catch (error) {
+      for (const undo of tx.undoLog.reverse()) undo();
+      throw error;
+    }
+  }
+
+  /**
+   * Rollback undoes only the writes made through the transaction handle, so
+   * writes made outside it meanwhile, such as the outbox dispatcher's, stay.
+   * Records are replaced rather than mutated, so an undo can tell its own
+   * write from a later one and leaves the later one alone.
+   */
+  private onRollback(undo: () => void): void {
+    this.undoLog?.push(undo);
+  }
+
+  /** Created records are undone by id, together with any later replacement. */
+  private pushRecords<T extends { id: string }>(records: T[], created: T[]): void {
+    records.push(...created);
+    this.onRollback(() => {
+      const ids = new Set(created.map((record) => record.id));
+      for (let index = records.length - 1; index >= 0; index--) {
+        if (ids.has(records[index].id)) records.splice(index, 1);
+      }
+    });
+  }
+
+  private replaceRecord<T>(records: T[], index: number, updated: T): void {
+    const previous = records[index];
+    records[index] = updated;
+    this.onRollback(() => {
+      const current = records.indexOf(updated);
+      if (current !== -1) records[current] = previous;
+    });
+  }
+
+  private setRecord<K, V>(records: Map<K, V>, key: K, value: V): void {
+    const previous = records.get(key);
+    records.set(key, value);
+    this.onRollback(() => {
+      if (records.get(key) !== value) return;
+      if (previous === undefined) {
+        records.delete(key);
+      } else {
+        records.set(key, previous);
+      }
+    });
+  }
+
   getAuditEvents(): AuditEvent[] {
     return [...this.auditEvents];
   }
@@ -148,5 +1240,13 @@ export class InMemoryStorage implements LedgerStorage {
     this.accounts.clear();
     this.events = [];
     this.auditEvents = [];
+    this.balanceSnapshots = [];
+    this.holds = [];
+    this.outbox = [];
+    this.projections.clear();
+    this.fxResidues.clear();
+    this.periods = [];
+    this.periodBalances.clear();
+    this.reconciliationDecisions.clear();
   }
 }